@@ -0,0 +1,69 @@
+import {Name, NameType} from '@wharfkit/session'
+
+/**
+ * The actions of a contract handled by local signing
+ *
+ * Either `'*'` for every action of the contract, or a list of action names where names ending
+ * in `*` match every action starting with the rest, e.g. `'game*'`.
+ */
+export type LocalSigningActions = NameType[] | '*'
+
+/**
+ * Check whether a configured action is a prefix pattern rather than an action name
+ */
+export function isActionPattern(action: NameType): action is string {
+    return typeof action === 'string' && action.endsWith('*')
+}
+
+/**
+ * Normalize configured actions, converting action names to Names and keeping patterns
+ */
+export function normalizeActions(actions: LocalSigningActions): LocalSigningActions {
+    if (actions === '*') {
+        return actions
+    }
+    return actions.map((action) => (isActionPattern(action) ? action : Name.from(action)))
+}
+
+/**
+ * Check whether an action matches the configured actions
+ *
+ * @param actions The configured actions
+ * @param name The name of the action
+ */
+export function matchesAction(actions: LocalSigningActions, name: NameType): boolean {
+    if (actions === '*') {
+        return true
+    }
+    const action = Name.from(name)
+    return actions.some((configured) =>
+        isActionPattern(configured)
+            ? String(action).startsWith(configured.slice(0, -1))
+            : action.equals(configured)
+    )
+}
+
+/**
+ * Check whether the permission for the configured actions is linked to every action of the
+ * contract, which is the case for any wildcard or prefix
+ *
+ * @param actions The configured actions
+ */
+export function isContractWide(actions: LocalSigningActions): boolean {
+    return actions === '*' || actions.some((action) => isActionPattern(action))
+}
+
+/**
+ * Get the action types to link the permission to
+ *
+ * Patterns can't be linked on-chain, so any wildcard or prefix links the permission to every
+ * action of the contract (an empty type) and only the matching is done by the plugin.
+ *
+ * @param actions The configured actions
+ */
+export function getLinkedActions(actions: LocalSigningActions): Name[] {
+    if (actions === '*' || isContractWide(actions)) {
+        return [Name.from('')]
+    }
+    return actions.map((action) => Name.from(action))
+}
@@ -0,0 +1,135 @@
+import {
+    Checksum256Type,
+    Fetch,
+    NameType,
+    PermissionLevel,
+    Serializer,
+    Signature,
+    SigningRequest,
+    Transaction,
+} from '@wharfkit/session'
+
+/**
+ * What a cosigner is asked to cosign for
+ */
+export interface LocalSigningCosignerContext {
+    /** The chain the transaction is for */
+    chain: Checksum256Type
+    /** The local permission signing the transaction */
+    signer: PermissionLevel
+    /** The fetch of the session, for cosigners calling an endpoint */
+    fetch: Fetch
+}
+
+/**
+ * A transaction modified by a cosigner, with the cosigner's signatures over it
+ */
+export interface CosignedTransaction {
+    transaction: Transaction
+    signatures: Signature[]
+}
+
+/**
+ * A service adding its own actions and signatures to transactions signed locally, e.g. to pay
+ * for their CPU and NET
+ *
+ * Returning undefined (or throwing) leaves the transaction as it was.
+ */
+export interface LocalSigningCosigner {
+    cosign(
+        transaction: Transaction,
+        context: LocalSigningCosignerContext
+    ): Promise<CosignedTransaction | undefined>
+}
+
+/**
+ * Options for the ResourceProviderCosigner
+ */
+export interface ResourceProviderCosignerOptions {
+    /** The base URL of the resource provider, e.g. `https://jungle4.greymass.com` */
+    url: string
+    /** The fetch to call it with, defaults to the session's */
+    fetch?: Fetch
+    /** Identifies the app to the resource provider */
+    ref?: string
+}
+
+/**
+ * Cosigns through a resource provider endpoint, as used by transact-plugin-resource-provider
+ *
+ * The provider typically prepends a `greymassnoop` action authorized by its own account, which
+ * makes it the first authorizer and so billed for the transaction's resources. Offers that
+ * require a fee are declined, since nobody is asked to approve them.
+ */
+export class ResourceProviderCosigner implements LocalSigningCosigner {
+    readonly url: string
+    readonly ref: string
+    private fetch?: Fetch
+
+    constructor(options: ResourceProviderCosignerOptions) {
+        this.url = options.url.replace(/\/$/, '')
+        this.ref = options.ref || 'transact-plugin-local-signing'
+        this.fetch = options.fetch
+    }
+
+    async cosign(
+        transaction: Transaction,
+        context: LocalSigningCosignerContext
+    ): Promise<CosignedTransaction | undefined> {
+        const request = await SigningRequest.create({transaction, chainId: context.chain})
+        const fetch = this.fetch || context.fetch
+        const response = await fetch(`${this.url}/v1/resource_provider/request_transaction`, {
+            method: 'POST',
+            body: JSON.stringify({
+                ref: this.ref,
+                request: String(request),
+                signer: context.signer,
+            }),
+        })
+        const json = await response.json()
+        // 400: no resources needed, 402: a fee is required
+        if (json.code !== 200 || !json.data) {
+            return undefined
+        }
+        const [type, value] = json.data.request
+        if (type !== 'transaction') {
+            return undefined
+        }
+        return {
+            transaction: Transaction.from(value),
+            signatures: json.data.signatures.map((signature: string) => Signature.from(signature)),
+        }
+    }
+}
+
+/**
+ * Check that a cosigner only added actions of its own in front of the original ones
+ *
+ * The added actions must not be authorized by the account, otherwise the local key (or the
+ * wallet) would be signing for actions nobody reviewed.
+ *
+ * @param original The transaction sent to the cosigner
+ * @param cosigned The transaction returned by the cosigner
+ * @param actor The account signing locally
+ */
+export function isValidCosignedTransaction(
+    original: Transaction,
+    cosigned: Transaction,
+    actor: NameType
+): boolean {
+    const added = cosigned.actions.length - original.actions.length
+    if (added < 0) {
+        return false
+    }
+    const unchanged = original.actions.every((action, index) =>
+        Serializer.encode({object: action}).equals(
+            Serializer.encode({object: cosigned.actions[added + index]})
+        )
+    )
+    if (!unchanged) {
+        return false
+    }
+    return cosigned.actions
+        .slice(0, added)
+        .every((action) => !action.authorization.some((auth) => auth.actor.equals(actor)))
+}
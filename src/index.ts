@@ -1,74 +1,529 @@
 import {
+    ABI,
     AbstractLoginPlugin,
     AbstractTransactPlugin,
     Action,
+    API,
+    APIClient,
+    APIError,
+    appendAction,
     Checksum256,
+    Checksum256Type,
     LoginContext,
     LoginHookTypes,
     Name,
     NameType,
+    PermissionLevel,
     PrivateKey,
+    PromptElement,
+    PublicKey,
+    Serializer,
     Session,
     SessionStorage,
     Signature,
+    SignedTransaction,
+    SigningRequest,
     TransactContext,
     TransactHookResponseType,
     TransactHookTypes,
     Transaction,
+    TransactResult,
+    UserInterface,
 } from '@wharfkit/session'
 
 /** Import JSON localization strings */
 import defaultTranslations from './translations'
 
+import {
+    getLinkedActions,
+    isContractWide,
+    LocalSigningActions,
+    matchesAction,
+    normalizeActions,
+} from './actions'
+import {CosignedTransaction, isValidCosignedTransaction, LocalSigningCosigner} from './cosigner'
+import {CryptoKeyStore, getDefaultCryptoKeyStore} from './keystore'
+import {
+    Base64KeyProtection,
+    decodeKeyEnvelope,
+    encodeKeyEnvelope,
+    getDefaultKeyProtection,
+    KEY_ENVELOPE_VERSION,
+    KeyEnvelope,
+    LocalKeyProtection,
+} from './protection'
+import {
+    countLimits,
+    LocalSigningLimit,
+    LocalSigningLimitAction,
+    LocalSigningLimitUsage,
+} from './limits'
+import {LocalSigningPolicy, LocalSigningPolicyContext} from './policy'
+import {mapActions, replaceActorAuthorization, replaceAuthorization} from './request'
+import {getDefaultSync, LocalSigningSync, LocalSigningSyncMessage} from './sync'
+import {DeleteAuth, LinkAuth, UnlinkAuth, UpdateAuth} from './types'
+import {findConfigIssues, LocalSigningConfigIssue} from './validation'
+import {WebCryptoLocalKey} from './webcrypto'
+
+export * from './actions'
+export * from './cosigner'
+export * from './keystore'
+export * from './limits'
+export * from './policy'
+export * from './protection'
+export * from './request'
+export * from './sync'
+export * from './types'
+export * from './validation'
+export * from './webcrypto'
+
 /** Storage key prefix for local signing keys (matches shipload pattern) */
 const STORAGE_KEY_PREFIX = 'localsession'
 
+/** Actions of the system contract that can't be linked to a permission */
+const UNLINKABLE_ACTIONS = ['updateauth', 'deleteauth', 'linkauth', 'unlinkauth', 'canceldelay']
+
 /**
  * Configuration for actions that should be handled by local signing
  */
 export interface LocalSigningActionConfig {
     /** The contract account name */
     contract: NameType
-    /** The action names that should be auto-signed */
-    actions: NameType[]
+    /**
+     * The action names that should be auto-signed, `'*'` for every action of the contract, or
+     * names ending in `*` to match a prefix. Wildcards and prefixes link the permission to every
+     * action of the contract, only the matching is limited to them.
+     */
+    actions: LocalSigningActions
+    /** The name of the local permission, defaults to the contract name */
+    permission?: NameType
+    /** The permission the local permission is created under, defaults to `active` */
+    parentPermission?: NameType
+    /** The permission that authorizes setting up and removing the local permission, defaults to the parent */
+    authorizingPermission?: NameType
+    /**
+     * Policies checked against the decoded data of each action before it is signed locally,
+     * keyed by action name. Actions rejected by any policy are signed by the wallet instead.
+     */
+    policies?: Record<string, LocalSigningPolicy | LocalSigningPolicy[]>
+    /**
+     * Rate limits and spending budgets for the actions signed locally. Transactions exceeding
+     * any of them are signed by the wallet instead.
+     */
+    limits?: LocalSigningLimit[]
+    /**
+     * How long a local key may be used for, in seconds from when it was stored. Expired keys
+     * are deleted and the user is offered to set up local signing again.
+     */
+    expiresIn?: number
+    /**
+     * How often the local key is replaced, in seconds. Once due, the permission is moved to a
+     * new key after the next transaction signed locally is broadcast by the session.
+     */
+    rotationInterval?: number
+    /**
+     * The chains the config applies to, every chain by default. Contracts are only prompted
+     * for, matched, stored and torn down on sessions for these chains.
+     */
+    chains?: Checksum256Type[]
+}
+
+/**
+ * Action configs keyed by the ID of the chain they apply to, for apps running on several
+ * chains where contract names differ or only exist on some of them
+ */
+export type LocalSigningChainActionConfigs = Record<string, LocalSigningActionConfig[]>
+
+/**
+ * The chain and account a stored local key belongs to
+ */
+export interface LocalSigningScope {
+    /** The chain ID the permission was created on */
+    chain: Checksum256Type
+    /** The account the permission was created on */
+    actor: NameType
+}
+
+/**
+ * How local keys are generated and held
+ *
+ * - `wif`: a K1 key whose (encrypted) WIF is kept in the session storage
+ * - `webcrypto`: a non-extractable P-256 key kept by WebCrypto in IndexedDB, signing R1
+ */
+export type LocalKeyMode = 'wif' | 'webcrypto'
+
+/**
+ * A local key able to sign for the local permission
+ */
+export type LocalKey = PrivateKey | WebCryptoLocalKey
+
+/**
+ * The on-chain state of a local permission compared to the stored key
+ *
+ * - `ok`: the permission trusts the stored key and is linked to every configured action
+ * - `missing`: the permission does not exist on the account
+ * - `no-key`: the permission exists but there is no stored key for it
+ * - `key-mismatch`: the permission exists but the stored key cannot satisfy it
+ * - `partially-linked`: the permission trusts the key but some configured actions aren't linked
+ */
+export type LocalSigningVerificationStatus =
+    | 'ok'
+    | 'missing'
+    | 'no-key'
+    | 'key-mismatch'
+    | 'partially-linked'
+
+/**
+ * The result of verifying a local permission against the chain
+ */
+export interface LocalSigningVerification {
+    /** The contract that was verified */
+    contract: Name
+    /** The permission the contract's actions should be linked to */
+    permission: Name
+    /** The verification outcome */
+    status: LocalSigningVerificationStatus
+    /** Configured actions that are not linked to the permission */
+    unlinkedActions: Name[]
+}
+
+/**
+ * The chain and account a lifecycle event happened for
+ */
+export interface LocalSigningEvent {
+    scope: LocalSigningScope
+}
+
+/**
+ * Local signing was set up for a contract
+ */
+export interface LocalSigningSetupEvent extends LocalSigningEvent {
+    contract: Name
+    permission: Name
+    publicKey: PublicKey
+    /** The ID of the setup transaction */
+    transactionId?: Checksum256
+}
+
+/**
+ * The user declined setting up local signing
+ */
+export interface LocalSigningSetupDeclinedEvent extends LocalSigningEvent {
+    contracts: Name[]
+    /** Whether the user asked not to be asked again */
+    never: boolean
+}
+
+/**
+ * The transaction setting up local signing failed or was cancelled
+ */
+export interface LocalSigningSetupFailedEvent extends LocalSigningEvent {
+    contracts: Name[]
+    error: unknown
+}
+
+/**
+ * A transaction was signed with the local key
+ */
+export interface LocalSigningSignEvent extends LocalSigningEvent {
+    transactionId: Checksum256
+    /** The actions that were signed locally */
+    actions: Action[]
+}
+
+/**
+ * Why a transaction with local signing actions was left to the wallet
+ *
+ * - `missing-key`: there is no stored key for a contract
+ * - `policy`: a policy rejected an action
+ * - `limit`: a rate limit or budget would be exceeded
+ * - `unauthorized`: the chain no longer accepts a stored key
+ */
+export type LocalSigningFallbackReason = 'missing-key' | 'policy' | 'limit' | 'unauthorized'
+
+/**
+ * A transaction with local signing actions was left to the wallet
+ */
+export interface LocalSigningFallbackEvent extends LocalSigningEvent {
+    reason: LocalSigningFallbackReason
+    /** The contracts that couldn't be signed for locally */
+    contracts: Name[]
+}
+
+/**
+ * Validating the action configs found problems
+ */
+export interface LocalSigningConfigIssuesEvent extends LocalSigningEvent {
+    issues: LocalSigningConfigIssue[]
+}
+
+/**
+ * Another tab changed the stored keys of an account
+ */
+export interface LocalSigningSyncEvent extends LocalSigningEvent {
+    type: LocalSigningSyncMessage['type']
+    /** The contract the change is for, except for `teardown` */
+    contract?: Name
+}
+
+/**
+ * Callbacks for what the plugin does, e.g. for analytics
+ * Errors thrown by callbacks are ignored.
+ */
+export interface LocalSigningEvents {
+    /** Local signing was set up for a contract */
+    onSetup?: (event: LocalSigningSetupEvent) => void
+    /** The user declined setting up local signing */
+    onSetupDeclined?: (event: LocalSigningSetupDeclinedEvent) => void
+    /** The transaction setting up local signing failed or was cancelled */
+    onSetupFailed?: (event: LocalSigningSetupFailedEvent) => void
+    /** A transaction was signed with the local key */
+    onLocalSign?: (event: LocalSigningSignEvent) => void
+    /** A transaction with local signing actions was left to the wallet */
+    onFallback?: (event: LocalSigningFallbackEvent) => void
+    /** The stored keys of an account were removed */
+    onTeardown?: (event: LocalSigningEvent) => void
+    /** Validating the action configs found problems */
+    onConfigIssues?: (event: LocalSigningConfigIssuesEvent) => void
+    /** Another tab stored or removed a key, or tore down an account */
+    onSync?: (event: LocalSigningSyncEvent) => void
 }
 
 /**
  * Options for the TransactPluginLocalSigning plugin
  */
-export interface TransactPluginLocalSigningOptions {
-    /** Array of contract/action configurations to handle locally */
-    actionConfigs: LocalSigningActionConfig[]
+export interface TransactPluginLocalSigningOptions extends LocalSigningEvents {
+    /** Array of contract/action configurations to handle locally, or arrays keyed by chain ID */
+    actionConfigs: LocalSigningActionConfig[] | LocalSigningChainActionConfigs
+    /** How stored keys are protected at rest, defaults to AES-GCM when WebCrypto is available */
+    keyProtection?: LocalKeyProtection
+    /** How local keys are generated and held, defaults to `wif` */
+    keyMode?: LocalKeyMode
+    /** Where `webcrypto` mode keys are kept, defaults to IndexedDB when available */
+    cryptoKeyStore?: CryptoKeyStore
+    /** Remove the on-chain permissions through the wallet when the session logs out */
+    revokeOnLogout?: boolean
+    /** Verify stored keys against the on-chain permissions during login, defaults to true */
+    verifyOnLogin?: boolean
+    /**
+     * Check with the chain that the local key is authorized and the actions are linked to its
+     * permission before using it, defaults to true. When they aren't, the key is discarded and
+     * the transaction is signed by the wallet instead.
+     */
+    fallbackToWallet?: boolean
+    /** Offer to set up local signing again when falling back to the wallet */
+    offerSetupOnFallback?: boolean
+    /**
+     * Offer local signing on the first matching transaction without a stored key, e.g. for
+     * restored sessions or users who skipped the login prompt
+     */
+    setupOnTransact?: boolean
+    /**
+     * Remove the on-chain permissions of expired keys, by adding their removal to the next
+     * transaction signed by the wallet
+     */
+    revokeOnExpiry?: boolean
+    /**
+     * A service cosigning transactions signed locally, e.g. a resource provider paying for their
+     * CPU and NET since the local permission usually has no resources of its own
+     */
+    cosigner?: LocalSigningCosigner
+    /**
+     * How long a declined setup offer isn't repeated at login or on transactions, in seconds,
+     * defaults to a week
+     */
+    declineCooldown?: number
+    /**
+     * Check the action configs against the ABIs of their contracts during login, contracts
+     * with problems aren't offered (see `validate`)
+     */
+    validateOnLogin?: boolean
+    /** Show a notice after each transaction signed locally, defaults to false */
+    notifyOnSign?: boolean | LocalSigningNoticeOptions
+    /**
+     * Keep the tabs of the app in sync, announcing changes to the stored keys and letting one
+     * tab at a time set up local signing for an account. `true` uses a BroadcastChannel (or
+     * localStorage events) when available.
+     */
+    sync?: boolean | LocalSigningSync
 }
 
-// Storage format: Base64-encoded private key (obfuscated to avoid extension detection)
-// If a key exists in storage, the permission has been set up.
-// Public key can be derived from private key when needed.
+/**
+ * A notice that a transaction was signed with the local key
+ */
+export interface LocalSigningNotice {
+    /** The translated title, "Auto-Signed" */
+    title: string
+    /** The translated body */
+    body: string
+    /** The actions that were signed locally */
+    actions: Action[]
+}
 
 /**
- * Simple obfuscation to prevent browser extensions from detecting private keys.
- * Extensions often scan for WIF patterns like "5J...", "5K...", "5H...".
- * Base64 encoding breaks these patterns.
+ * Options for the notice shown after signing locally
  */
-function obfuscateKey(privateKeyWif: string): string {
-    if (typeof btoa !== 'undefined') {
-        return btoa(privateKeyWif)
-    }
-    // Node.js fallback
-    return Buffer.from(privateKeyWif).toString('base64')
+export interface LocalSigningNoticeOptions {
+    /** The minimum number of seconds between notices, the ones in between are skipped */
+    throttle?: number
+    /** Show the notice yourself instead of as a status message of the session's UI */
+    show?: (notice: LocalSigningNotice, context: TransactContext) => void
+}
+
+/**
+ * Options for setting up local signing with `setup` and `setupAll`
+ */
+export interface LocalSigningSetupOptions {
+    /** Ask the user which contracts to set up before creating them, defaults to false */
+    prompt?: boolean
+    /** The user interface to prompt with, defaults to the session's */
+    ui?: UserInterface
+    /** Create a new key even if one is already stored, defaults to false */
+    force?: boolean
+    /** Check the account first so only unlinked actions are linked, defaults to true */
+    verify?: boolean
+    /** Leave out contracts whose setup offer the user declined recently, defaults to false */
+    skipDeclined?: boolean
+}
+
+/**
+ * The outcome of setting up local signing for a contract
+ *
+ * - `created`: the permission was set up and the key stored
+ * - `existing`: a key was already stored, nothing was changed
+ * - `declined`: the user declined the prompt (or declined it before, with `skipDeclined`)
+ */
+export type LocalSigningSetupStatus = 'created' | 'existing' | 'declined'
+
+/**
+ * The result of setting up local signing for a contract
+ */
+export interface LocalSigningSetupResult {
+    /** The contract that was set up */
+    contract: Name
+    /** The name of its local permission */
+    permission: Name
+    /** What happened */
+    status: LocalSigningSetupStatus
+    /** The public key of the stored local key, unless declined */
+    publicKey?: PublicKey
+    /** The ID of the setup transaction, when one was sent */
+    transactionId?: Checksum256
+}
+
+/**
+ * The result of replacing the local key for a contract
+ */
+export interface LocalSigningRotationResult {
+    /** The contract whose key was replaced */
+    contract: Name
+    /** The name of its local permission */
+    permission: Name
+    /** The public key of the new local key */
+    publicKey: PublicKey
+    /** The ID of the transaction replacing the key */
+    transactionId?: Checksum256
+    /** Whether the previous key authorized the change, otherwise the wallet did */
+    signedByLocalKey: boolean
+}
+
+/**
+ * The response to the setup prompt
+ */
+interface SetupPromptResponse {
+    /** Whether the user approved setting up local signing */
+    approved?: boolean
+    /** The contracts the user approved, all selected contracts when omitted */
+    contracts?: NameType[]
+    /** A contract whose selection the user toggled */
+    toggle?: NameType
+    /** Whether the user asked not to be asked again */
+    never?: boolean
+}
+
+/**
+ * The contracts the user approved in the setup prompt
+ */
+interface SetupPromptChoice {
+    approved: LocalSigningActionConfig[]
+    /** Whether the user asked not to be asked again about the others */
+    never: boolean
+}
+
+/**
+ * A declined setup offer, as persisted in storage
+ */
+interface SetupPreference {
+    /** When the offer was declined, in milliseconds since the epoch */
+    declinedAt: number
+    /** Whether the user asked not to be asked again */
+    never?: boolean
 }
 
 /**
- * Decode an obfuscated private key
+ * A local key and the actions setting up its permission
  */
-function deobfuscateKey(obfuscated: string): string {
-    if (typeof atob !== 'undefined') {
-        return atob(obfuscated)
+interface PreparedLocalSetup {
+    config: LocalSigningActionConfig
+    localKey: LocalKey
+    actions: Action[]
+}
+
+/**
+ * Expired permissions whose removal was added to a transaction, dequeued once it is broadcast
+ */
+interface PendingExpiredCleanup {
+    scope: LocalSigningScope
+    contracts: Name[]
+}
+
+/**
+ * The limit usage of a contract including a transaction, stored once it is broadcast
+ */
+interface PendingLimitUsage {
+    scope: LocalSigningScope
+    contract: NameType
+    usage: LocalSigningLimitUsage[]
+}
+
+/**
+ * A local key waiting for its setup transaction to be broadcast
+ */
+interface PendingLocalSetup {
+    scope: LocalSigningScope
+    contract: NameType
+    localKey: LocalKey
+}
+
+/**
+ * Check whether an error from the chain is an authorization failure
+ *
+ * Matches API errors in the authorization_exception range (3090000-3099999) as well as the
+ * plain errors Session.transact rethrows with only the message of the chain error.
+ */
+export function isAuthorizationError(error: unknown): boolean {
+    if (!error || typeof error !== 'object') {
+        return false
     }
-    // Node.js fallback
-    return Buffer.from(obfuscated, 'base64').toString('utf8')
+    const code = Number((error as {code?: unknown}).code)
+    if (code >= 3090000 && code < 3100000) {
+        return true
+    }
+    const message = String((error as {message?: unknown}).message)
+    return /missing authority|does not have signatures|irrelevant (signature|authority)|unsatisfied_authorization|missing_auth_exception|irrelevant_auth_exception/i.test(
+        message
+    )
 }
 
+// Storage format: a versioned envelope holding the key encrypted by the configured protection
+// (see ./protection). Records from earlier versions are plain base64 and are upgraded on read.
+// Stored under `localsession-{chainId}-{actor}-{contract}` so that accounts and chains sharing
+// the same storage never read each other's key.
+// In `webcrypto` mode the envelope holds the public key and the non-extractable private key is
+// kept in the CryptoKeyStore under the same name.
+// If a key exists in storage, the permission has been set up.
+// Public key can be derived from private key when needed.
+
 /**
  * A plugin that enables automatic local signing for specific contract actions.
  *
@@ -98,6 +553,9 @@ function deobfuscateKey(obfuscated: string): string {
  *
  * // Logout - automatically cleans up keys via onLogout
  * await sessionKit.logout(session)
+ *
+ * // Or remove the on-chain permission as well
+ * await localSigningPlugin.revoke(session, 'gamecontract')
  * ```
  */
 export class TransactPluginLocalSigning extends AbstractTransactPlugin {
@@ -110,218 +568,2436 @@ export class TransactPluginLocalSigning extends AbstractTransactPlugin {
     /** The configured actions to handle locally */
     private actionConfigs: LocalSigningActionConfig[]
 
+    /** The protection applied to keys before they are stored */
+    private keyProtection: LocalKeyProtection
+
+    /** How local keys are generated and held */
+    private keyMode: LocalKeyMode
+
+    /** Where `webcrypto` mode keys are kept */
+    private cryptoKeyStore: CryptoKeyStore
+
+    /** Whether to revoke the on-chain permissions on logout */
+    public readonly revokeOnLogout: boolean
+
+    /** Whether to verify stored keys against the on-chain permissions during login */
+    public readonly verifyOnLogin: boolean
+
+    /** Whether to check the action configs against the contract ABIs during login */
+    public readonly validateOnLogin: boolean
+
+    /** Whether to check the local key with the chain and fall back to the wallet */
+    private fallbackToWallet: boolean
+
+    /** Whether to offer setting up local signing again after falling back to the wallet */
+    private offerSetupOnFallback: boolean
+
+    /** Whether to offer local signing on matching transactions without a stored key */
+    private setupOnTransact: boolean
+
+    /** Whether to remove the on-chain permissions of expired keys */
+    private revokeOnExpiry: boolean
+
+    /** The service cosigning transactions signed locally */
+    private cosigner?: LocalSigningCosigner
+
+    /** The lifecycle callbacks */
+    private events: LocalSigningEvents
+
+    /** How to notify about transactions signed locally, undefined when disabled */
+    private notice?: LocalSigningNoticeOptions
+
+    /** Keeps the tabs of the app in sync, undefined when disabled */
+    private sync?: LocalSigningSync
+
+    /** When the last notice was shown, in milliseconds since the epoch */
+    private lastNoticeAt = 0
+
+    /** The actions signed locally in a transaction, notified about once it is signed */
+    private signedActions = new WeakMap<TransactContext, Action[]>()
+
+    /** How long a declined setup offer isn't repeated, in seconds */
+    private declineCooldown: number
+
+    /** Storage keys of keys that expired, offered to be set up again on the next transaction */
+    private expiredKeys = new Set<string>()
+
+    /** Storage keys whose account doesn't trust the legacy key, not checked again */
+    private rejectedLegacyKeys = new Set<string>()
+
+    /** Expired permissions removed by a transaction, dequeued once it is broadcast */
+    private pendingCleanups = new WeakMap<TransactContext, PendingExpiredCleanup>()
+
+    /** Keys set up by a transaction, saved once it is broadcast */
+    private pendingSetups = new WeakMap<TransactContext, PendingLocalSetup[]>()
+
+    /** Contracts whose key is due for rotation, rotated once a transaction is broadcast */
+    private pendingRotations = new WeakMap<TransactContext, LocalSigningActionConfig[]>()
+
+    /** Limit usage of transactions signed locally, counted once they are broadcast */
+    private pendingLimits = new WeakMap<TransactContext, PendingLimitUsage[]>()
+
     /** The login plugin instance - add this to loginPlugins array */
     public readonly loginPlugin: LocalSigningLoginPlugin
 
     constructor(options: TransactPluginLocalSigningOptions) {
         super()
-        this.actionConfigs = options.actionConfigs.map((config) => ({
+        const configs = Array.isArray(options.actionConfigs)
+            ? options.actionConfigs
+            : Object.entries(options.actionConfigs).flatMap(([chain, configs]) =>
+                  configs.map((config) => ({...config, chains: [chain]}))
+              )
+        this.actionConfigs = configs.map((config) => ({
             contract: Name.from(config.contract),
-            actions: config.actions.map((a) => Name.from(a)),
+            actions: normalizeActions(config.actions),
+            permission: config.permission ? Name.from(config.permission) : undefined,
+            parentPermission: config.parentPermission
+                ? Name.from(config.parentPermission)
+                : undefined,
+            authorizingPermission: config.authorizingPermission
+                ? Name.from(config.authorizingPermission)
+                : undefined,
+            policies: config.policies,
+            limits: config.limits,
+            expiresIn: config.expiresIn,
+            rotationInterval: config.rotationInterval,
+            chains: config.chains
+                ? config.chains.map((chain) => Checksum256.from(chain))
+                : undefined,
         }))
+        this.keyProtection = options.keyProtection || getDefaultKeyProtection()
+        this.keyMode = options.keyMode || 'wif'
+        this.cryptoKeyStore = options.cryptoKeyStore || getDefaultCryptoKeyStore()
+        this.revokeOnLogout = options.revokeOnLogout || false
+        this.verifyOnLogin = options.verifyOnLogin !== false
+        this.validateOnLogin = options.validateOnLogin || false
+        this.fallbackToWallet = options.fallbackToWallet !== false
+        this.offerSetupOnFallback = options.offerSetupOnFallback || false
+        this.setupOnTransact = options.setupOnTransact || false
+        this.revokeOnExpiry = options.revokeOnExpiry || false
+        this.cosigner = options.cosigner
+        this.declineCooldown =
+            options.declineCooldown !== undefined ? options.declineCooldown : 7 * 24 * 60 * 60
+        this.events = options
+        if (options.notifyOnSign) {
+            this.notice = options.notifyOnSign === true ? {} : options.notifyOnSign
+        }
+        if (options.sync) {
+            this.sync = options.sync === true ? getDefaultSync() : options.sync
+            this.sync.subscribe((message) => this.receiveSyncMessage(message))
+        }
 
         // Create the companion login plugin
         this.loginPlugin = new LocalSigningLoginPlugin(this)
     }
 
     /**
-     * Get the storage key for a specific contract (matches shipload pattern)
+     * Get the storage key for a contract, scoped to a chain and account
+     * A custom permission name is included so renaming the permission doesn't reuse its key.
      */
-    getStorageKey(contract: NameType): string {
-        return `${STORAGE_KEY_PREFIX}-${contract}`
+    getStorageKey(scope: LocalSigningScope, contract: NameType): string {
+        const chainId = Checksum256.from(scope.chain)
+        const key = `${STORAGE_KEY_PREFIX}-${chainId}-${Name.from(scope.actor)}-${Name.from(
+            contract
+        )}`
+        const permission = this.getPermissionName(contract, chainId)
+        return permission.equals(contract) ? key : `${key}-${permission}`
     }
 
     /**
-     * Get the configured action configs
+     * Get the unscoped storage key used by previous versions (matches shipload pattern)
      */
-    getActionConfigs(): LocalSigningActionConfig[] {
-        return this.actionConfigs
+    getLegacyStorageKey(contract: NameType): string {
+        return `${STORAGE_KEY_PREFIX}-${Name.from(contract)}`
     }
 
     /**
-     * Get the permission name for a contract (permission name = contract name)
-     * This follows the shipload pattern where the permission is named after the contract.
+     * Get the storage key for the contracts whose expired permissions are waiting to be removed
      */
-    getPermissionName(contract: NameType): Name {
-        return Name.from(contract)
+    getRevokeQueueStorageKey(scope: LocalSigningScope): string {
+        const chainId = Checksum256.from(scope.chain)
+        return `${STORAGE_KEY_PREFIX}-revoke-${chainId}-${Name.from(scope.actor)}`
     }
 
     /**
-     * Check if an action should be handled by local signing
+     * Get the storage key for the user's answer to the setup offer for a contract
      */
-    private isLocalSigningAction(action: Action): boolean {
-        for (const config of this.actionConfigs) {
-            if (
-                Name.from(action.account).equals(config.contract) &&
-                config.actions.some((a) => Name.from(a).equals(action.name))
-            ) {
-                return true
-            }
-        }
-        return false
+    getPreferenceStorageKey(scope: LocalSigningScope, contract: NameType): string {
+        const chainId = Checksum256.from(scope.chain)
+        return `${STORAGE_KEY_PREFIX}-declined-${chainId}-${Name.from(scope.actor)}-${Name.from(
+            contract
+        )}`
     }
 
     /**
-     * Load the stored private key for a contract
-     * Returns the raw WIF private key string, or undefined if not set up
+     * Get the storage scope for a session
      */
-    async loadPrivateKey(storage: SessionStorage, contract: NameType): Promise<string | undefined> {
-        const storageKey = this.getStorageKey(contract)
-        const obfuscated = await storage.read(storageKey)
-        if (!obfuscated) {
-            return undefined
-        }
-        return deobfuscateKey(obfuscated)
+    getScope(session: Session): LocalSigningScope {
+        return {chain: session.chain.id, actor: session.actor}
     }
 
     /**
-     * Save a private key to storage (obfuscated to avoid extension detection)
+     * Get the configured action configs
+     *
+     * @param chain Only return the configs applying to this chain, all of them by default
      */
-    async savePrivateKey(
-        storage: SessionStorage,
-        contract: NameType,
-        privateKey: string
-    ): Promise<void> {
-        const storageKey = this.getStorageKey(contract)
-        const obfuscated = obfuscateKey(privateKey)
-        await storage.write(storageKey, obfuscated)
+    getActionConfigs(chain?: Checksum256Type): LocalSigningActionConfig[] {
+        if (chain === undefined) {
+            return this.actionConfigs
+        }
+        return this.actionConfigs.filter(
+            (config) =>
+                !config.chains || config.chains.some((c) => Checksum256.from(c).equals(chain))
+        )
     }
 
     /**
-     * Delete the stored private key for a contract
+     * Get the permission name for a contract
+     * Unless configured otherwise, this follows the shipload pattern where the permission is
+     * named after the contract.
      */
-    async deletePrivateKey(storage: SessionStorage, contract: NameType): Promise<void> {
-        const key = this.getStorageKey(contract)
-        await storage.remove(key)
+    getPermissionName(contract: NameType, chain?: Checksum256Type): Name {
+        const config = this.getActionConfig(contract, chain)
+        return Name.from((config && config.permission) || contract)
     }
 
     /**
-     * Generate a new private key for local signing
+     * Get the local permission level of an account for a contract
      */
-    generateLocalKey(): {privateKey: PrivateKey; publicKey: string} {
-        const privateKey = PrivateKey.generate('K1')
-        const publicKey = String(privateKey.toPublic())
-        return {privateKey, publicKey}
+    getPermissionLevel(
+        actor: NameType,
+        contract: NameType,
+        chain?: Checksum256Type
+    ): PermissionLevel {
+        return PermissionLevel.from({actor, permission: this.getPermissionName(contract, chain)})
     }
 
     /**
-     * Sign a transaction with the local private key
+     * Get the permission the local permission for a contract is created under
      */
-    private signWithLocalKey(
-        transaction: Transaction,
-        chainId: Checksum256,
-        privateKeyWif: string
-    ): Signature {
-        const privateKey = PrivateKey.from(privateKeyWif)
-        const digest = transaction.signingDigest(chainId)
-        return privateKey.signDigest(digest)
+    getParentPermission(contract: NameType, chain?: Checksum256Type): Name {
+        const config = this.getActionConfig(contract, chain)
+        return Name.from((config && config.parentPermission) || 'active')
     }
 
     /**
-     * Create the updateauth action to add a new permission
-     * Permission name = contract name (following shipload pattern)
+     * Get the permission that authorizes managing the local permission for a contract
      */
-    createUpdateAuthAction(
-        account: NameType,
-        contract: NameType,
-        publicKey: string,
-        parentPermission: NameType = 'active'
-    ): Action {
-        const permissionName = this.getPermissionName(contract)
-        return Action.from({
-            account: 'eosio',
-            name: 'updateauth',
-            authorization: [
-                {
-                    actor: account,
-                    permission: parentPermission,
-                },
-            ],
-            data: {
-                account: account,
-                permission: permissionName,
-                parent: parentPermission,
-                auth: {
-                    threshold: 1,
-                    keys: [
-                        {
-                            key: publicKey,
-                            weight: 1,
-                        },
-                    ],
-                    accounts: [],
-                    waits: [],
-                },
-            },
-        })
+    getAuthorizingPermission(contract: NameType, chain?: Checksum256Type): Name {
+        const config = this.getActionConfig(contract, chain)
+        return Name.from(
+            (config && config.authorizingPermission) || this.getParentPermission(contract, chain)
+        )
     }
 
     /**
-     * Create the linkauth action to link the permission to specific actions
-     * Permission name = contract name (following shipload pattern)
+     * Get the action config for a contract, on the given chain when there is one
      */
-    createLinkAuthActions(account: NameType, contract: NameType, actions: NameType[]): Action[] {
-        const permissionName = this.getPermissionName(contract)
-        return actions.map((actionName) =>
-            Action.from({
-                account: 'eosio',
-                name: 'linkauth',
-                authorization: [
-                    {
-                        actor: account,
-                        permission: 'active',
-                    },
-                ],
-                data: {
-                    account: account,
-                    code: contract,
-                    type: actionName,
-                    requirement: permissionName,
-                },
-            })
+    private getActionConfig(
+        contract: NameType,
+        chain?: Checksum256Type
+    ): LocalSigningActionConfig | undefined {
+        return this.getActionConfigs(chain).find((config) =>
+            Name.from(config.contract).equals(contract)
         )
     }
 
     /**
-     * Check if local signing is already set up for a contract
-     * (If a key exists in storage, the permission has been set up)
+     * Check if an action should be handled by local signing on a chain
+     */
+    private isLocalSigningAction(action: Action, chain: Checksum256Type): boolean {
+        for (const config of this.getActionConfigs(chain)) {
+            if (
+                Name.from(action.account).equals(config.contract) &&
+                matchesAction(config.actions, action.name)
+            ) {
+                return true
+            }
+        }
+        return false
+    }
+
+    /**
+     * Check an action against the policies configured for it
+     * Actions whose data can't be decoded are rejected when they have policies.
+     */
+    private async isAllowedByPolicies(action: Action, context: TransactContext): Promise<boolean> {
+        const config = this.getActionConfig(action.account, context.chain.id)
+        const configured = config && config.policies && config.policies[String(action.name)]
+        if (!configured) {
+            return true
+        }
+        const policies = Array.isArray(configured) ? configured : [configured]
+        try {
+            const data = await this.decodeActionData(action, context)
+            const policyContext: LocalSigningPolicyContext = {
+                actor: context.permissionLevel.actor,
+                contract: action.account,
+                action: action.name,
+            }
+            for (const policy of policies) {
+                if (!(await policy(data, policyContext))) {
+                    return false
+                }
+            }
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Decode the data of an action into its JSON form using the contract's ABI
+     */
+    private async decodeActionData(
+        action: Action,
+        context: TransactContext
+    ): Promise<Record<string, unknown>> {
+        const abi = await context.abiCache.getAbi(action.account)
+        return Serializer.objectify(action.decodeData(abi))
+    }
+
+    /**
+     * Get the storage key for the limit usage of a contract, stored next to its key
+     */
+    getLimitsStorageKey(scope: LocalSigningScope, contract: NameType): string {
+        return `${this.getStorageKey(scope, contract)}-limits`
+    }
+
+    /**
+     * Count the local actions of a contract against its limits
+     * Returns the updated usage to store once signed, or undefined if a limit would be exceeded.
+     */
+    private async countLimits(
+        context: TransactContext,
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        config: LocalSigningActionConfig,
+        localActions: Action[]
+    ): Promise<LocalSigningLimitUsage[] | undefined> {
+        const limits = config.limits || []
+        if (limits.length === 0) {
+            return []
+        }
+        const actions: LocalSigningLimitAction[] = []
+        for (const action of localActions) {
+            if (action.account.equals(config.contract)) {
+                const data = limits.some((limit) => limit.budget)
+                    ? await this.decodeActionData(action, context)
+                    : {}
+                actions.push({name: action.name, data})
+            }
+        }
+        let usage: (LocalSigningLimitUsage | undefined)[] = []
+        const stored = await storage.read(this.getLimitsStorageKey(scope, config.contract))
+        if (stored) {
+            try {
+                usage = JSON.parse(stored)
+            } catch {
+                // Unreadable usage, start counting again
+            }
+        }
+        return countLimits(limits, usage, actions, Date.now())
+    }
+
+    /**
+     * Load the stored private key for a contract
+     * Returns the raw WIF private key string, or undefined if not set up
+     * (keys held by WebCrypto have no WIF, use loadLocalKey for those)
+     *
+     * Records in an older format are re-saved with the configured protection. Keys stored
+     * under the legacy unscoped name are only read once moved by migrateLegacyKey.
+     */
+    async loadPrivateKey(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<string | undefined> {
+        const envelope = await this.readEnvelope(storage, scope, contract)
+        if (!envelope) {
+            return undefined
+        }
+        return this.unprotectEnvelope(storage, scope, contract, envelope)
+    }
+
+    /**
+     * Load the stored local key for a contract, in whichever mode it was created
+     * Returns undefined if not set up
+     */
+    async loadLocalKey(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<LocalKey | undefined> {
+        const envelope = await this.readEnvelope(storage, scope, contract)
+        if (!envelope) {
+            return undefined
+        }
+        if (envelope.p === WebCryptoLocalKey.envelopeId) {
+            const privateKey = await this.cryptoKeyStore.get(this.getStorageKey(scope, contract))
+            if (!privateKey) {
+                return undefined // The key store was cleared, treat as not set up
+            }
+            return new WebCryptoLocalKey(privateKey, PublicKey.from(envelope.d))
+        }
+        const privateKeyWif = await this.unprotectEnvelope(storage, scope, contract, envelope)
+        return privateKeyWif ? PrivateKey.from(privateKeyWif) : undefined
+    }
+
+    /**
+     * Save a local key to storage, in whichever mode it was created
+     *
+     * @param createdAt When the key was set up, the setup time of the replaced key on rotation
+     * @param rotatedAt When the key was rotated, if it replaces an existing one
+     */
+    async saveLocalKey(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType,
+        key: LocalKey,
+        createdAt = Date.now(),
+        rotatedAt?: number
+    ): Promise<void> {
+        if (key instanceof WebCryptoLocalKey) {
+            const storageKey = this.getStorageKey(scope, contract)
+            await this.cryptoKeyStore.set(storageKey, key.privateKey)
+            await storage.write(
+                storageKey,
+                encodeKeyEnvelope(
+                    WebCryptoLocalKey.envelopeId,
+                    String(key.publicKey),
+                    createdAt,
+                    rotatedAt
+                )
+            )
+            await this.dequeueRevoke(storage, scope, [Name.from(contract)])
+            this.announce('saved', scope, contract)
+        } else {
+            await this.savePrivateKey(storage, scope, contract, String(key), createdAt, rotatedAt)
+        }
+    }
+
+    /**
+     * Save a private key to storage, protected by the configured key protection
+     * The times it was set up and rotated are kept with it, for keys that expire or rotate.
+     */
+    async savePrivateKey(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType,
+        privateKey: string,
+        createdAt = Date.now(),
+        rotatedAt?: number
+    ): Promise<void> {
+        const storageKey = this.getStorageKey(scope, contract)
+        const payload = await this.keyProtection.protect(privateKey)
+        await storage.write(
+            storageKey,
+            encodeKeyEnvelope(this.keyProtection.id, payload, createdAt, rotatedAt)
+        )
+        await this.dequeueRevoke(storage, scope, [Name.from(contract)])
+        this.announce('saved', scope, contract)
+    }
+
+    /**
+     * Delete the stored private key for a contract
+     * A legacy key isn't removed, it may belong to another chain or account.
+     */
+    async deletePrivateKey(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<void> {
+        const storageKey = this.getStorageKey(scope, contract)
+        await storage.remove(storageKey)
+        await storage.remove(this.getLimitsStorageKey(scope, contract))
+        await this.cryptoKeyStore.remove(storageKey)
+        this.announce('deleted', scope, contract)
+    }
+
+    /**
+     * Read the stored envelope for a contract
+     */
+    private async readEnvelope(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<KeyEnvelope | undefined> {
+        const stored = await storage.read(this.getStorageKey(scope, contract))
+        if (!stored) {
+            return undefined
+        }
+        const envelope = decodeKeyEnvelope(stored)
+        const config = this.getActionConfig(contract, scope.chain)
+        if (config && (config.expiresIn !== undefined || config.rotationInterval !== undefined)) {
+            if (envelope.t === undefined) {
+                // Stored before its age was tracked, start counting from now
+                envelope.t = Date.now()
+                await storage.write(
+                    this.getStorageKey(scope, contract),
+                    encodeKeyEnvelope(envelope.p, envelope.d, envelope.t, envelope.r)
+                )
+            } else if (
+                config.expiresIn !== undefined &&
+                envelope.t + config.expiresIn * 1000 <= Date.now()
+            ) {
+                await this.expireKey(storage, scope, contract)
+                return undefined
+            }
+        }
+        return envelope
+    }
+
+    /**
+     * Check whether the stored key for a contract is due to be rotated
+     */
+    private async isRotationDue(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        config: LocalSigningActionConfig
+    ): Promise<boolean> {
+        if (config.rotationInterval === undefined) {
+            return false
+        }
+        const envelope = await this.readEnvelope(storage, scope, config.contract)
+        // Counted from the last rotation, or the setup for keys never rotated
+        const since = envelope && (envelope.r !== undefined ? envelope.r : envelope.t)
+        return since !== undefined && since + config.rotationInterval * 1000 <= Date.now()
+    }
+
+    /**
+     * Delete an expired key, queueing the removal of its permission if configured
+     */
+    private async expireKey(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<void> {
+        await this.deletePrivateKey(storage, scope, contract)
+        this.expiredKeys.add(this.getStorageKey(scope, contract))
+        if (this.revokeOnExpiry) {
+            const queue = await this.readRevokeQueue(storage, scope)
+            if (!queue.some((queued) => queued.equals(contract))) {
+                queue.push(Name.from(contract))
+                await storage.write(
+                    this.getRevokeQueueStorageKey(scope),
+                    JSON.stringify(queue.map(String))
+                )
+            }
+        }
+    }
+
+    /**
+     * Read the contracts whose expired permissions are waiting to be removed
+     */
+    private async readRevokeQueue(
+        storage: SessionStorage,
+        scope: LocalSigningScope
+    ): Promise<Name[]> {
+        const stored = await storage.read(this.getRevokeQueueStorageKey(scope))
+        if (!stored) {
+            return []
+        }
+        try {
+            return (JSON.parse(stored) as string[]).map((contract) => Name.from(contract))
+        } catch {
+            return [] // Unreadable queue, nothing to remove
+        }
+    }
+
+    /**
+     * Remove contracts from the queue of expired permissions to remove
+     */
+    private async dequeueRevoke(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contracts: Name[]
+    ): Promise<void> {
+        const queue = await this.readRevokeQueue(storage, scope)
+        const remaining = queue.filter(
+            (queued) => !contracts.some((contract) => contract.equals(queued))
+        )
+        if (remaining.length === queue.length) {
+            return
+        }
+        const storageKey = this.getRevokeQueueStorageKey(scope)
+        if (remaining.length === 0) {
+            await storage.remove(storageKey)
+        } else {
+            await storage.write(storageKey, JSON.stringify(remaining.map(String)))
+        }
+    }
+
+    /**
+     * Recover the WIF private key from an envelope, upgrading records in an older format
+     */
+    private async unprotectEnvelope(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType,
+        envelope: KeyEnvelope
+    ): Promise<string | undefined> {
+        const protection = this.getKeyProtection(envelope.p)
+        if (!protection) {
+            return undefined // Written with a protection this plugin isn't configured for
+        }
+
+        let privateKey: string
+        try {
+            privateKey = await protection.unprotect(envelope.d)
+        } catch {
+            return undefined // Unreadable (e.g. the wrapping key is gone), treat as not set up
+        }
+
+        if (envelope.v < KEY_ENVELOPE_VERSION || envelope.p !== this.keyProtection.id) {
+            // Only the format changes, so other tabs aren't told about it
+            const payload = await this.keyProtection.protect(privateKey)
+            await storage.write(
+                this.getStorageKey(scope, contract),
+                encodeKeyEnvelope(this.keyProtection.id, payload, envelope.t, envelope.r)
+            )
+        }
+        return privateKey
+    }
+
+    /**
+     * Get the protection able to read a stored record
+     */
+    private getKeyProtection(id: string): LocalKeyProtection | undefined {
+        if (id === this.keyProtection.id) {
+            return this.keyProtection
+        }
+        if (id === Base64KeyProtection.id) {
+            return new Base64KeyProtection()
+        }
+    }
+
+    /**
+     * Move a key stored under the legacy unscoped name to the scoped name
+     *
+     * Legacy records don't say which chain or account they belong to, so the key is only
+     * adopted once the account's permission for the contract trusts it. Otherwise the record
+     * is left in place for the chain and account it was created for.
+     * Returns whether the key was moved.
+     *
+     * @param client A client for the chain of the scope, used to look up the permission
+     */
+    async migrateLegacyKey(
+        client: APIClient,
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<boolean> {
+        // Legacy records always belong to a permission named after the contract
+        const permissionName = this.getPermissionName(contract, scope.chain)
+        if (!permissionName.equals(contract)) {
+            return false
+        }
+        const legacyKey = this.getLegacyStorageKey(contract)
+        const storageKey = this.getStorageKey(scope, contract)
+        if (this.rejectedLegacyKeys.has(storageKey)) {
+            return false
+        }
+        const stored = await storage.read(legacyKey)
+        if (!stored || (await storage.read(storageKey))) {
+            return false
+        }
+
+        const envelope = decodeKeyEnvelope(stored)
+        const protection = this.getKeyProtection(envelope.p)
+        if (!protection) {
+            return false
+        }
+        try {
+            const publicKey = PrivateKey.from(await protection.unprotect(envelope.d)).toPublic()
+            const account = await client.v1.chain.get_account(scope.actor)
+            const permission = account.permissions.find((p) => p.perm_name.equals(permissionName))
+            const auth = permission && permission.required_auth
+            if (!auth || auth.keyWeight(publicKey) < auth.threshold.toNumber()) {
+                // Created for another chain or account
+                this.rejectedLegacyKeys.add(storageKey)
+                return false
+            }
+        } catch {
+            return false // Unreadable, or the account can't be fetched, try again later
+        }
+
+        await storage.write(storageKey, stored)
+        await storage.remove(legacyKey)
+        return true
+    }
+
+    /**
+     * Generate a new private key for local signing
+     */
+    generateLocalKey(): {privateKey: PrivateKey; publicKey: string} {
+        const privateKey = PrivateKey.generate('K1')
+        const publicKey = String(privateKey.toPublic())
+        return {privateKey, publicKey}
+    }
+
+    /**
+     * Create a new local key in the configured key mode
+     */
+    async createLocalKey(): Promise<LocalKey> {
+        if (this.keyMode === 'webcrypto') {
+            if (!WebCryptoLocalKey.isAvailable()) {
+                throw new Error('WebCrypto is required for the webcrypto key mode.')
+            }
+            return WebCryptoLocalKey.generate()
+        }
+        return this.generateLocalKey().privateKey
+    }
+
+    /**
+     * Sign a transaction with the local key
+     */
+    private async signWithLocalKey(
+        transaction: Transaction,
+        chainId: Checksum256,
+        key: LocalKey
+    ): Promise<Signature> {
+        if (key instanceof WebCryptoLocalKey) {
+            // WebCrypto hashes the signing data itself, producing a signature over the digest
+            return key.signMessage(transaction.signingData(chainId))
+        }
+        const digest = transaction.signingDigest(chainId)
+        return key.signDigest(digest)
+    }
+
+    /**
+     * Create the updateauth action to add a new permission
+     * Uses the configured permission, parent and authorizing permission of the contract.
+     */
+    createUpdateAuthAction(
+        account: NameType,
+        contract: NameType,
+        publicKey: string,
+        parentPermission?: NameType,
+        chain?: Checksum256Type
+    ): Action {
+        const permissionName = this.getPermissionName(contract, chain)
+        const config = this.getActionConfig(contract, chain)
+        const parent = parentPermission || this.getParentPermission(contract, chain)
+        return Action.from({
+            account: 'eosio',
+            name: 'updateauth',
+            authorization: [
+                {
+                    actor: account,
+                    permission: (config && config.authorizingPermission) || parent,
+                },
+            ],
+            data: UpdateAuth.from({
+                account: account,
+                permission: permissionName,
+                parent,
+                auth: {
+                    threshold: 1,
+                    keys: [
+                        {
+                            key: publicKey,
+                            weight: 1,
+                        },
+                    ],
+                    accounts: [],
+                    waits: [],
+                },
+            }),
+        })
+    }
+
+    /**
+     * Create the linkauth action to link the permission to specific actions
+     */
+    createLinkAuthActions(
+        account: NameType,
+        contract: NameType,
+        actions: NameType[],
+        chain?: Checksum256Type
+    ): Action[] {
+        const permissionName = this.getPermissionName(contract, chain)
+        return actions.map((actionName) =>
+            Action.from({
+                account: 'eosio',
+                name: 'linkauth',
+                authorization: [
+                    {
+                        actor: account,
+                        permission: this.getAuthorizingPermission(contract, chain),
+                    },
+                ],
+                data: LinkAuth.from({
+                    account: account,
+                    code: contract,
+                    type: actionName,
+                    requirement: permissionName,
+                }),
+            })
+        )
+    }
+
+    /**
+     * Create the unlinkauth actions to remove the links to specific actions
+     */
+    createUnlinkAuthActions(
+        account: NameType,
+        contract: NameType,
+        actions: NameType[],
+        chain?: Checksum256Type
+    ): Action[] {
+        return actions.map((actionName) =>
+            Action.from({
+                account: 'eosio',
+                name: 'unlinkauth',
+                authorization: [
+                    {
+                        actor: account,
+                        permission: this.getAuthorizingPermission(contract, chain),
+                    },
+                ],
+                data: UnlinkAuth.from({
+                    account: account,
+                    code: contract,
+                    type: actionName,
+                }),
+            })
+        )
+    }
+
+    /**
+     * Create the deleteauth action to remove the permission
+     * The permission must no longer be linked to any actions.
+     */
+    createDeleteAuthAction(account: NameType, contract: NameType, chain?: Checksum256Type): Action {
+        const permissionName = this.getPermissionName(contract, chain)
+        return Action.from({
+            account: 'eosio',
+            name: 'deleteauth',
+            authorization: [
+                {
+                    actor: account,
+                    permission: this.getAuthorizingPermission(contract, chain),
+                },
+            ],
+            data: DeleteAuth.from({
+                account: account,
+                permission: permissionName,
+            }),
+        })
+    }
+
+    /**
+     * Check if local signing is already set up for a contract
+     * (If a key exists in storage, the permission has been set up)
      */
     async isSetup(session: Session, contract: NameType): Promise<boolean> {
         if (!session.storage) {
             return false
         }
-        const privateKey = await this.loadPrivateKey(session.storage, contract)
-        return privateKey !== undefined
+        const scope = this.getScope(session)
+        await this.migrateLegacyKey(session.client, session.storage, scope, contract)
+        const localKey = await this.loadLocalKey(session.storage, scope, contract)
+        return localKey !== undefined
+    }
+
+    /**
+     * Check if local signing is set up for any configured contract
+     */
+    async isAnySetup(session: Session): Promise<boolean> {
+        for (const config of this.getActionConfigs(session.chain.id)) {
+            if (await this.isSetup(session, config.contract)) {
+                return true
+            }
+        }
+        return false
+    }
+
+    /**
+     * Check the action configs against the ABIs of their contracts on the session's chain
+     *
+     * Reports contracts that aren't deployed, configured actions (or prefixes) that don't
+     * exist and policies or limits for unknown actions. Returns no issues when all is well.
+     *
+     * @param session The session whose chain to check against
+     * @param contracts The contracts to check, all configured contracts by default
+     */
+    async validate(
+        session: Session,
+        contracts: NameType[] = this.getActionConfigs(session.chain.id).map(
+            (config) => config.contract
+        )
+    ): Promise<LocalSigningConfigIssue[]> {
+        const issues: LocalSigningConfigIssue[] = []
+        const configs = this.getActionConfigs(session.chain.id).filter((config) =>
+            contracts.some((contract) => Name.from(contract).equals(config.contract))
+        )
+        for (const config of configs) {
+            const referenced = [
+                ...Object.keys(config.policies || {}),
+                ...(config.limits || []).flatMap((limit) => (limit.action ? [limit.action] : [])),
+            ]
+            const abi = await this.getContractAbi(session.client, config.contract)
+            issues.push(...findConfigIssues(config.contract, config.actions, abi, referenced))
+        }
+        if (issues.length > 0) {
+            this.emit('onConfigIssues', {scope: this.getScope(session), issues})
+        }
+        return issues
+    }
+
+    /**
+     * Fetch the ABI of a contract, undefined if the account has no contract or doesn't exist
+     */
+    private async getContractAbi(client: APIClient, contract: NameType): Promise<ABI | undefined> {
+        try {
+            const response = await client.v1.chain.get_raw_abi(contract)
+            return response.abi && response.abi.array.length > 0
+                ? ABI.from(response.abi)
+                : undefined
+        } catch (error) {
+            if (error instanceof APIError) {
+                return undefined // Rejected by the chain, e.g. an unknown account
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Verify the on-chain permission for a contract against the stored key
+     *
+     * Fetches the account and checks that the permission exists, that the stored key meets its
+     * threshold and that it is linked to every configured action. Nodes that don't report
+     * linked actions are assumed to have every action linked.
+     *
+     * @param session The session to verify local signing for
+     * @param contract The contract whose permission should be verified
+     */
+    async verify(session: Session, contract: NameType): Promise<LocalSigningVerification> {
+        let localKey: LocalKey | undefined
+        if (session.storage) {
+            const scope = this.getScope(session)
+            await this.migrateLegacyKey(session.client, session.storage, scope, contract)
+            localKey = await this.loadLocalKey(session.storage, scope, contract)
+        }
+        return this.checkPermission(
+            session.client,
+            session.chain.id,
+            session.actor,
+            contract,
+            localKey
+        )
+    }
+
+    /**
+     * Compare the on-chain permission for a contract with a local key
+     */
+    private async checkPermission(
+        client: APIClient,
+        chain: Checksum256Type,
+        actor: NameType,
+        contract: NameType,
+        localKey: LocalKey | undefined
+    ): Promise<LocalSigningVerification> {
+        const config = this.getActionConfig(contract, chain)
+        const actions = config ? getLinkedActions(config.actions) : []
+        const permissionName = this.getPermissionName(contract, chain)
+        const result = {
+            contract: Name.from(contract),
+            permission: permissionName,
+        }
+
+        const account = await client.v1.chain.get_account(actor)
+        const permission = account.permissions.find((p) => p.perm_name.equals(permissionName))
+        if (!permission) {
+            return {...result, status: 'missing', unlinkedActions: actions}
+        }
+
+        const linked = permission.linked_actions
+        const unlinkedActions = linked
+            ? actions.filter(
+                  (action) =>
+                      !linked.some(
+                          (link) =>
+                              link.account.equals(contract) &&
+                              (!link.action || link.action.equals(action))
+                      )
+              )
+            : []
+
+        if (!localKey) {
+            return {...result, status: 'no-key', unlinkedActions}
+        }
+
+        const auth = permission.required_auth
+        if (auth.keyWeight(localKey.toPublic()) < auth.threshold.toNumber()) {
+            return {...result, status: 'key-mismatch', unlinkedActions}
+        }
+        if (unlinkedActions.length > 0) {
+            return {...result, status: 'partially-linked', unlinkedActions}
+        }
+        return {...result, status: 'ok', unlinkedActions}
+    }
+
+    /**
+     * Verify the on-chain permission for a contract and act on a mismatch
+     *
+     * - `missing` or `key-mismatch`: the stale stored key is discarded
+     * - `partially-linked`: the missing links are re-created through the wallet
+     *
+     * Returns the verification from before any repair was made.
+     *
+     * @param session The session to reconcile local signing for
+     * @param contract The contract whose permission should be reconciled
+     */
+    async reconcile(session: Session, contract: NameType): Promise<LocalSigningVerification> {
+        const verification = await this.verify(session, contract)
+        switch (verification.status) {
+            case 'missing':
+            case 'key-mismatch': {
+                if (session.storage) {
+                    await this.deletePrivateKey(session.storage, this.getScope(session), contract)
+                }
+                break
+            }
+            case 'partially-linked': {
+                await session.transact({
+                    actions: this.createLinkAuthActions(
+                        session.actor,
+                        contract,
+                        verification.unlinkedActions,
+                        session.chain.id
+                    ),
+                })
+                break
+            }
+        }
+        return verification
+    }
+
+    /**
+     * Teardown local signing - deletes stored private keys
+     *
+     * Called automatically via onLogout when using updated SessionKit.
+     * The on-chain permissions remain but won't be usable without the keys,
+     * use revoke() or the revokeOnLogout option to remove them as well.
+     *
+     * @param session The session to tear down local signing for
+     */
+    async teardown(session: Session): Promise<void> {
+        if (!session.storage) {
+            return
+        }
+
+        // Delete stored keys for all contracts configured for the chain
+        const scope = this.getScope(session)
+        for (const config of this.getActionConfigs(scope.chain)) {
+            await this.deletePrivateKey(session.storage, scope, config.contract)
+        }
+        this.announce('teardown', scope)
+        this.emit('onTeardown', {scope})
+    }
+
+    /**
+     * Set up local signing for a contract without the login flow
+     *
+     * Generates a key, creates the permission and links its actions through the session's
+     * wallet and stores the key once that transaction succeeds. Nothing is shown to the user
+     * unless the `prompt` option is set.
+     *
+     * @param session The session to set up local signing for
+     * @param contract The contract to set up local signing for
+     * @param options How the setup is performed
+     */
+    async setup(
+        session: Session,
+        contract: NameType,
+        options: LocalSigningSetupOptions = {}
+    ): Promise<LocalSigningSetupResult> {
+        const [result] = await this.setupAll(session, [contract], options)
+        return result
+    }
+
+    /**
+     * Set up local signing for several contracts in a single transaction
+     *
+     * @param session The session to set up local signing for
+     * @param contracts The contracts to set up, defaults to every configured contract
+     * @param options How the setup is performed
+     */
+    async setupAll(
+        session: Session,
+        contracts: NameType[] = this.getActionConfigs(session.chain.id).map(
+            (config) => config.contract
+        ),
+        options: LocalSigningSetupOptions = {}
+    ): Promise<LocalSigningSetupResult[]> {
+        const ui = options.ui || session.ui
+        if (!session.storage) {
+            throw new Error(this.getErrorMessage(ui, 'no_storage'))
+        }
+        if (options.prompt && !ui) {
+            throw new Error(this.getErrorMessage(ui, 'no_ui'))
+        }
+        const scope = this.getScope(session)
+        const configs = contracts.map((contract) => {
+            const config = this.getActionConfig(contract, scope.chain)
+            if (!config) {
+                throw new Error(`No local signing configuration for contract ${contract}.`)
+            }
+            return config
+        })
+
+        const storage = session.storage
+        const results = new Map<LocalSigningActionConfig, LocalSigningSetupResult>()
+        const result = (
+            config: LocalSigningActionConfig,
+            status: LocalSigningSetupStatus,
+            publicKey?: PublicKey
+        ): LocalSigningSetupResult => ({
+            contract: Name.from(config.contract),
+            permission: this.getPermissionName(config.contract, scope.chain),
+            status,
+            publicKey,
+        })
+
+        // Another tab may be setting up the same account, wait for it to finish first
+        return this.withSetupLock(scope, async () => {
+            // Skip contracts that already have a key
+            let pending: LocalSigningActionConfig[] = []
+            for (const config of configs) {
+                const existingKey = options.force
+                    ? undefined
+                    : await this.loadLocalKey(storage, scope, config.contract)
+                if (existingKey) {
+                    results.set(config, result(config, 'existing', existingKey.toPublic()))
+                } else {
+                    pending.push(config)
+                }
+            }
+
+            // Leave out contracts the user declined recently, possibly in another tab
+            if (options.skipDeclined) {
+                const declined: LocalSigningActionConfig[] = []
+                for (const config of pending) {
+                    if (await this.isSetupDeclined(storage, scope, config.contract)) {
+                        declined.push(config)
+                        results.set(config, result(config, 'declined'))
+                    }
+                }
+                pending = pending.filter((config) => !declined.includes(config))
+            }
+
+            // Ask the user first when requested
+            if (options.prompt && ui && pending.length > 0) {
+                const {approved, never} = await this.showSetupPrompt(ui, pending)
+                const declined = pending.filter((config) => !approved.includes(config))
+                for (const config of declined) {
+                    results.set(config, result(config, 'declined'))
+                }
+                await this.recordDeclined(storage, scope, declined, never)
+                pending = approved
+            }
+
+            // Generate a key and the setup actions for each contract
+            const setups: PreparedLocalSetup[] = []
+            for (const config of pending) {
+                const localKey = await this.createLocalKey()
+                const actions = await this.createSetupActions(
+                    session.client,
+                    scope,
+                    config,
+                    localKey,
+                    options.verify !== false
+                )
+                setups.push({config, localKey, actions})
+            }
+
+            if (setups.length > 0) {
+                // Execute every permission setup in a single transaction
+                // If this throws, no key is saved (which is the desired behavior)
+                let response: TransactResult
+                try {
+                    response = await session.transact({
+                        actions: setups.flatMap((setup) => setup.actions),
+                    })
+                } catch (error) {
+                    const contracts = setups.map((setup) => Name.from(setup.config.contract))
+                    this.emit('onSetupFailed', {scope, contracts, error})
+                    throw error
+                }
+                const transactionId = response.resolved
+                    ? response.resolved.transaction.id
+                    : undefined
+
+                // Only save the keys after successful setup
+                // (key existing = permission set up)
+                for (const setup of setups) {
+                    await this.saveLocalKey(storage, scope, setup.config.contract, setup.localKey)
+                    results.set(setup.config, {
+                        ...result(setup.config, 'created', setup.localKey.toPublic()),
+                        transactionId,
+                    })
+                    this.emit('onSetup', {
+                        scope,
+                        contract: Name.from(setup.config.contract),
+                        permission: this.getPermissionName(setup.config.contract, scope.chain),
+                        publicKey: setup.localKey.toPublic(),
+                        transactionId,
+                    })
+                }
+            }
+
+            return configs.map((config) => results.get(config)!)
+        })
+    }
+
+    /**
+     * Replace the local key for a contract, keeping its permission and links
+     *
+     * The updateauth is signed by the current key when the chain accepts it, otherwise by the
+     * wallet. The new key is only stored once the change has been broadcast.
+     */
+    async rotateKey(session: Session, contract: NameType): Promise<LocalSigningRotationResult> {
+        if (!session.storage) {
+            throw new Error(this.getErrorMessage(session.ui, 'no_storage'))
+        }
+        const scope = this.getScope(session)
+        const storage = session.storage
+        return this.withSetupLock(scope, async () => {
+            const previousKey = await this.loadLocalKey(storage, scope, contract)
+            if (!previousKey) {
+                throw new Error(`Local signing is not set up for ${Name.from(contract)}`)
+            }
+            const previousEnvelope = await this.readEnvelope(storage, scope, contract)
+
+            const localKey = await this.createLocalKey()
+            const action = this.createUpdateAuthAction(
+                session.actor,
+                contract,
+                String(localKey.toPublic()),
+                undefined,
+                scope.chain
+            )
+
+            // A permission may update itself, try that before asking the wallet
+            let transactionId = await this.sendWithLocalKey(
+                session.client,
+                scope.chain,
+                replaceActorAuthorization(
+                    action,
+                    session.actor,
+                    this.getPermissionLevel(session.actor, contract, scope.chain)
+                ),
+                previousKey
+            )
+            const signedByLocalKey = transactionId !== undefined
+            if (!signedByLocalKey) {
+                // If this throws, the previous key is kept
+                const response = await session.transact({action})
+                transactionId = response.resolved ? response.resolved.transaction.id : undefined
+            }
+
+            // Keep the setup time, so the permission still expires counting from it
+            const createdAt = previousEnvelope && previousEnvelope.t
+            await this.saveLocalKey(storage, scope, contract, localKey, createdAt, Date.now())
+            return {
+                contract: Name.from(contract),
+                permission: this.getPermissionName(contract, scope.chain),
+                publicKey: localKey.toPublic(),
+                transactionId,
+                signedByLocalKey,
+            }
+        })
+    }
+
+    /**
+     * Replace a key due for rotation with a transaction signed by the key itself
+     * If the chain doesn't accept it or the transaction fails, the key is kept and rotation is
+     * tried again after a later transaction.
+     */
+    private async rotateDueKey(
+        client: APIClient,
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        config: LocalSigningActionConfig
+    ): Promise<void> {
+        try {
+            await this.withSetupLock(scope, async () => {
+                // Another tab may have rotated it while this one waited
+                if (!(await this.isRotationDue(storage, scope, config))) {
+                    return
+                }
+                const previousKey = await this.loadLocalKey(storage, scope, config.contract)
+                const previousEnvelope = await this.readEnvelope(storage, scope, config.contract)
+                if (!previousKey || !previousEnvelope) {
+                    return
+                }
+                const localKey = await this.createLocalKey()
+                const action = this.createUpdateAuthAction(
+                    scope.actor,
+                    config.contract,
+                    String(localKey.toPublic()),
+                    undefined,
+                    scope.chain
+                )
+                const transactionId = await this.sendWithLocalKey(
+                    client,
+                    scope.chain,
+                    replaceActorAuthorization(
+                        action,
+                        scope.actor,
+                        this.getPermissionLevel(scope.actor, config.contract, scope.chain)
+                    ),
+                    previousKey
+                )
+                if (transactionId) {
+                    await this.saveLocalKey(
+                        storage,
+                        scope,
+                        config.contract,
+                        localKey,
+                        previousEnvelope.t,
+                        Date.now()
+                    )
+                }
+            })
+        } catch {
+            // Unable to rotate now (e.g. a network failure), the key stays in use
+        }
+    }
+
+    /**
+     * Sign and broadcast an action with a local key alone
+     * Returns the transaction ID, or undefined if the chain doesn't accept the key for it.
+     */
+    private async sendWithLocalKey(
+        client: APIClient,
+        chain: Checksum256Type,
+        action: Action,
+        localKey: LocalKey
+    ): Promise<Checksum256 | undefined> {
+        const info = await client.v1.chain.get_info()
+        const transaction = Transaction.from({...info.getTransactionHeader(), actions: [action]})
+        const permission = action.authorization[0]
+        if (!(await this.isAuthorizedByLocalKey(client, transaction, permission, localKey))) {
+            return undefined
+        }
+        const signature = await this.signWithLocalKey(
+            transaction,
+            Checksum256.from(chain),
+            localKey
+        )
+        try {
+            await client.v1.chain.send_transaction(
+                SignedTransaction.from({...transaction, signatures: [signature]})
+            )
+        } catch (error) {
+            if (isAuthorizationError(error)) {
+                return undefined
+            }
+            throw error
+        }
+        return transaction.id
+    }
+
+    /**
+     * Create the updateauth and linkauth actions setting up a local key for a contract
+     *
+     * Unless disabled, the account is checked first so only actions that aren't linked to the
+     * permission yet are linked, eosio rejects a linkauth that doesn't change the requirement.
+     */
+    private async createSetupActions(
+        client: APIClient,
+        scope: LocalSigningScope,
+        config: LocalSigningActionConfig,
+        localKey: LocalKey,
+        verify = true
+    ): Promise<Action[]> {
+        const {chain, actor} = scope
+        let unlinkedActions = getLinkedActions(config.actions)
+        if (verify) {
+            try {
+                const verification = await this.checkPermission(
+                    client,
+                    chain,
+                    actor,
+                    config.contract,
+                    undefined
+                )
+                unlinkedActions = verification.unlinkedActions
+            } catch {
+                // Unable to verify, link every configured action
+            }
+        }
+        return [
+            this.createUpdateAuthAction(
+                actor,
+                config.contract,
+                String(localKey.toPublic()),
+                undefined,
+                chain
+            ),
+            ...this.createLinkAuthActions(actor, config.contract, unlinkedActions, chain),
+        ]
+    }
+
+    /**
+     * Get a translated error message, in English when there is no user interface
+     */
+    private getErrorMessage(ui: UserInterface | undefined, key: 'no_storage' | 'no_ui'): string {
+        const message = defaultTranslations.en.error[key]
+        return ui ? ui.getTranslate(this.id)(`error.${key}`, {default: message}) : message
+    }
+
+    /**
+     * Revoke local signing for a contract - removes the on-chain permission and its links
+     *
+     * Submits the unlinkauth actions for each configured action and a deleteauth for the
+     * permission in a single transaction signed by the wallet. The stored key is only deleted
+     * once that transaction succeeds.
+     *
+     * @param session The session to revoke local signing for
+     * @param contract The contract whose permission should be removed
+     */
+    async revoke(session: Session, contract: NameType): Promise<void> {
+        const config = this.getActionConfig(contract, session.chain.id)
+        if (!config) {
+            throw new Error(`No local signing configuration for contract ${contract}.`)
+        }
+        await this.revokeConfigs(session, [config])
+    }
+
+    /**
+     * Revoke local signing for every configured contract that is set up, in a single transaction
+     *
+     * @param session The session to revoke local signing for
+     */
+    async revokeAll(session: Session): Promise<void> {
+        const configs: LocalSigningActionConfig[] = []
+        for (const config of this.getActionConfigs(session.chain.id)) {
+            if (await this.isSetup(session, config.contract)) {
+                configs.push(config)
+            }
+        }
+        if (configs.length > 0) {
+            await this.revokeConfigs(session, configs)
+        }
+    }
+
+    /**
+     * Remove the permissions for the given configs on-chain, then delete their stored keys
+     *
+     * The links of each permission are read from the account, so the ones it has (including
+     * links of an older config or added by hand) are all removed before deleting it, and
+     * permissions already missing are skipped. If the account can't be fetched, every
+     * configured action is unlinked.
+     */
+    private async revokeConfigs(
+        session: Session,
+        configs: LocalSigningActionConfig[]
+    ): Promise<void> {
+        let account: API.v1.AccountObject | undefined
+        try {
+            account = await session.client.v1.chain.get_account(session.actor)
+        } catch {
+            // Unknown on-chain state, remove everything the setups would have added
+        }
+
+        const actions: Action[] = []
+        for (const config of configs) {
+            const authorization = {
+                actor: session.actor,
+                permission: this.getAuthorizingPermission(config.contract, session.chain.id),
+            }
+            let links = getLinkedActions(config.actions).map((action) => ({
+                account: Name.from(config.contract),
+                action,
+            }))
+            if (account) {
+                const permissionName = this.getPermissionName(config.contract, session.chain.id)
+                const permission = account.permissions.find((p) =>
+                    p.perm_name.equals(permissionName)
+                )
+                if (!permission) {
+                    continue
+                }
+                // Nodes older than Leap 4 don't return the links
+                if (permission.linked_actions) {
+                    links = permission.linked_actions
+                }
+            }
+            for (const link of links) {
+                actions.push(
+                    Action.from({
+                        account: 'eosio',
+                        name: 'unlinkauth',
+                        authorization: [authorization],
+                        data: UnlinkAuth.from({
+                            account: session.actor,
+                            code: link.account,
+                            type: link.action || '',
+                        }),
+                    })
+                )
+            }
+            actions.push(
+                this.createDeleteAuthAction(session.actor, config.contract, session.chain.id)
+            )
+        }
+
+        // If this throws, the keys are kept (the permissions still exist on-chain)
+        if (actions.length > 0) {
+            await session.transact({actions})
+        }
+
+        if (session.storage) {
+            const scope = this.getScope(session)
+            for (const config of configs) {
+                await this.deletePrivateKey(session.storage, scope, config.contract)
+            }
+            // Removed by this transaction, no longer waiting to be cleaned up
+            await this.dequeueRevoke(
+                session.storage,
+                scope,
+                configs.map((config) => Name.from(config.contract))
+            )
+        }
+    }
+
+    /**
+     * Ask the user which contracts to enable local signing for
+     *
+     * Every contract is shown on a single consent screen. With more than one contract, each
+     * gets a button toggling whether it is included. User interfaces with their own controls
+     * may instead respond with `{approved: true, contracts: [...]}`.
+     * Returns the approved configs, closing the prompt counts as declining all of them.
+     *
+     * @param ui The user interface to prompt with
+     * @param configs The contracts and actions the prompt is for
+     * @param body Optional body text replacing the default explanation
+     */
+    async promptForSetup(
+        ui: UserInterface,
+        configs: LocalSigningActionConfig[],
+        body?: string
+    ): Promise<LocalSigningActionConfig[]> {
+        const {approved} = await this.showSetupPrompt(ui, configs, body)
+        return approved
+    }
+
+    /**
+     * Show the setup prompt, returning the approved contracts and whether the user asked not
+     * to be asked again
+     */
+    private async showSetupPrompt(
+        ui: UserInterface,
+        configs: LocalSigningActionConfig[],
+        body?: string
+    ): Promise<SetupPromptChoice> {
+        const t = ui.getTranslate(this.id)
+        const selected = new Set(configs.map((config) => String(config.contract)))
+        try {
+            for (;;) {
+                const toggles: PromptElement[] =
+                    configs.length > 1
+                        ? configs.map((config) => {
+                              const contract = String(config.contract)
+                              const label = selected.has(contract)
+                                  ? t('prompt.toggle_on', {
+                                        default: `${contract}: Enabled`,
+                                        contract,
+                                    })
+                                  : t('prompt.toggle_off', {
+                                        default: `${contract}: Skipped`,
+                                        contract,
+                                    })
+                              return {
+                                  type: 'button',
+                                  label,
+                                  data: {onClick: () => ({toggle: contract}), label},
+                              }
+                          })
+                        : []
+                const response = (await ui.prompt({
+                    title: t('prompt.title', {default: 'Enable Auto-Signing?'}),
+                    body: body || this.getSetupPromptBody(ui, configs),
+                    elements: [
+                        ...toggles,
+                        {
+                            type: 'button',
+                            label: t('prompt.enable', {default: 'Enable Auto-Signing'}),
+                            data: {
+                                onClick: () => ({approved: true}),
+                                label: t('prompt.enable', {default: 'Enable Auto-Signing'}),
+                                variant: 'primary',
+                            },
+                        },
+                        {
+                            type: 'button',
+                            label: t('prompt.skip', {default: 'No Thanks'}),
+                            data: {
+                                onClick: () => ({approved: false}),
+                                label: t('prompt.skip', {default: 'No Thanks'}),
+                            },
+                        },
+                        {
+                            type: 'button',
+                            label: t('prompt.never', {default: "Don't Ask Again"}),
+                            data: {
+                                onClick: () => ({approved: false, never: true}),
+                                label: t('prompt.never', {default: "Don't Ask Again"}),
+                            },
+                        },
+                    ],
+                })) as SetupPromptResponse | undefined
+
+                if (response && response.toggle !== undefined) {
+                    // Flip the contract and show the updated screen
+                    const contract = String(Name.from(response.toggle))
+                    if (!selected.delete(contract)) {
+                        selected.add(contract)
+                    }
+                    continue
+                }
+                if (!response || !response.approved) {
+                    return {approved: [], never: !!(response && response.never)}
+                }
+                const contracts = response.contracts
+                if (contracts) {
+                    const approved = configs.filter((config) =>
+                        contracts.some((contract) => Name.from(contract).equals(config.contract))
+                    )
+                    return {approved, never: false}
+                }
+                const approved = configs.filter((config) => selected.has(String(config.contract)))
+                return {approved, never: false}
+            }
+        } catch {
+            // User closed the prompt
+            return {approved: [], never: false}
+        }
+    }
+
+    /**
+     * Offer to set up the contracts whose offer the user hasn't declined recently
+     * Returns the approved contracts, declines are remembered.
+     *
+     * @param getBody Returns the prompt body for the contracts offered, the default if undefined
+     */
+    private async offerSetup(
+        ui: UserInterface,
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        configs: LocalSigningActionConfig[],
+        getBody: (offered: LocalSigningActionConfig[]) => string | undefined
+    ): Promise<LocalSigningActionConfig[]> {
+        return this.withSetupLock(scope, async () => {
+            const offered: LocalSigningActionConfig[] = []
+            for (const config of configs) {
+                // Skip declined contracts and those another tab set up while this one waited
+                if (
+                    !(await this.isSetupDeclined(storage, scope, config.contract)) &&
+                    !(await this.loadLocalKey(storage, scope, config.contract))
+                ) {
+                    offered.push(config)
+                }
+            }
+            if (offered.length === 0) {
+                return []
+            }
+            const {approved, never} = await this.showSetupPrompt(ui, offered, getBody(offered))
+            const declined = offered.filter((config) => !approved.includes(config))
+            await this.recordDeclined(storage, scope, declined, never)
+            return approved
+        })
+    }
+
+    /**
+     * Check whether the user declined the setup offer for a contract within the cool-down, or
+     * asked not to be asked again
+     */
+    async isSetupDeclined(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): Promise<boolean> {
+        const stored = await storage.read(this.getPreferenceStorageKey(scope, contract))
+        if (!stored) {
+            return false
+        }
+        let preference: SetupPreference
+        try {
+            preference = JSON.parse(stored)
+        } catch {
+            return false // Unreadable preference, offer again
+        }
+        return (
+            !!preference.never || preference.declinedAt + this.declineCooldown * 1000 > Date.now()
+        )
+    }
+
+    /**
+     * Remember that the user declined setting up contracts
+     */
+    private async recordDeclined(
+        storage: SessionStorage,
+        scope: LocalSigningScope,
+        declined: LocalSigningActionConfig[],
+        never: boolean
+    ): Promise<void> {
+        if (declined.length === 0) {
+            return
+        }
+        const preference: SetupPreference = {declinedAt: Date.now()}
+        if (never) {
+            preference.never = true
+        }
+        for (const config of declined) {
+            await storage.write(
+                this.getPreferenceStorageKey(scope, config.contract),
+                JSON.stringify(preference)
+            )
+        }
+        const contracts = declined.map((config) => Name.from(config.contract))
+        this.emit('onSetupDeclined', {scope, contracts, never})
+    }
+
+    /**
+     * Forget the user's answer to the setup offer for a contract, so it is offered again
+     */
+    async resetPreference(session: Session, contract: NameType): Promise<void> {
+        if (session.storage) {
+            await session.storage.remove(
+                this.getPreferenceStorageKey(this.getScope(session), contract)
+            )
+        }
+    }
+
+    /**
+     * Describe the contracts and actions a setup prompt is for
+     */
+    private getSetupPromptBody(ui: UserInterface, configs: LocalSigningActionConfig[]): string {
+        const t = ui.getTranslate(this.id)
+        const describe = (config: LocalSigningActionConfig) =>
+            config.actions === '*'
+                ? t('prompt.all_actions', {default: 'All actions'})
+                : config.actions.map((a) => String(a)).join(', ')
+        if (configs.length === 1) {
+            const [config] = configs
+            const actionNames = describe(config)
+            // Wildcards and prefixes are linked to every action, the consent has to say so
+            if (isContractWide(config.actions)) {
+                return t('prompt.body_all', {
+                    default: `Would you like to enable automatic signing for the following actions on ${config.contract}?\n\nActions: ${actionNames}\n\nThis will create a new permission on your account that can perform every action of ${config.contract}, not only these. Only the listed actions will be signed automatically.`,
+                    contract: String(config.contract),
+                    actions: actionNames,
+                })
+            }
+            return t('prompt.body', {
+                default: `Would you like to enable automatic signing for the following actions on ${config.contract}?\n\nActions: ${actionNames}\n\nThis will create a new permission on your account that can only perform these specific actions.`,
+                contract: String(config.contract),
+                actions: actionNames,
+            })
+        }
+        const marker = t('prompt.contract_wide', {default: 'permission can perform every action'})
+        const contracts = configs
+            .map((config) =>
+                isContractWide(config.actions)
+                    ? `${config.contract}: ${describe(config)} (${marker})`
+                    : `${config.contract}: ${describe(config)}`
+            )
+            .join('\n')
+        if (configs.some((config) => isContractWide(config.actions))) {
+            return t('prompt.batch_body_all', {
+                default: `Would you like to enable automatic signing for the following contracts?\n\n${contracts}\n\nThis will create a new permission on your account for each selected contract. Where marked, the permission can perform every action of the contract, otherwise only its listed actions.`,
+                contracts,
+            })
+        }
+        return t('prompt.batch_body', {
+            default: `Would you like to enable automatic signing for the following contracts?\n\n${contracts}\n\nThis will create a new permission on your account for each selected contract that can only perform its listed actions.`,
+            contracts,
+        })
+    }
+
+    /**
+     * Rewrite the actor's authorizations on a contract's local actions to its local permission
+     * Apps can write their actions once with any permission, the local key can only satisfy
+     * the local permission. Actions that aren't linked to it are left for the wallet.
+     */
+    private authorizeWithLocalPermission(
+        request: SigningRequest,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): SigningRequest {
+        const permission = this.getPermissionLevel(scope.actor, contract, scope.chain)
+        return mapActions(request, (action) =>
+            action.account.equals(contract) && this.isLocalSigningAction(action, scope.chain)
+                ? replaceActorAuthorization(action, scope.actor, permission)
+                : action
+        )
+    }
+
+    /**
+     * Ask the chain whether the local key satisfies the local permission in a transaction
+     * Only the actions authorized by the local permission are checked, the wallet signs for
+     * the rest.
+     *
+     * `get_required_keys` only checks the key against the permission, not whether the actions
+     * are linked to it, so the links are compared with the account's as well.
+     */
+    private async isAuthorizedByLocalKey(
+        client: APIClient,
+        transaction: Transaction,
+        permission: PermissionLevel,
+        localKey: LocalKey
+    ): Promise<boolean> {
+        const localTransaction = Transaction.from({
+            ...transaction,
+            actions: transaction.actions
+                .filter((action) => action.authorization.some((auth) => auth.equals(permission)))
+                .map((action) => Action.from({...action, authorization: [permission]})),
+        })
+        try {
+            await client.call({
+                path: '/v1/chain/get_required_keys',
+                params: {transaction: localTransaction, available_keys: [localKey.toPublic()]},
+            })
+        } catch (error) {
+            // Only an authorization failure invalidates the key, other errors (e.g. network) don't
+            return !isAuthorizationError(error)
+        }
+
+        let account: API.v1.AccountObject
+        try {
+            account = await client.v1.chain.get_account(permission.actor)
+        } catch {
+            return true // Unable to fetch the links, rely on the key check
+        }
+        const onChain = account.permissions.find((p) => p.perm_name.equals(permission.permission))
+        const linked = onChain && onChain.linked_actions
+        // Nodes older than Leap 4 don't return the links
+        if (!linked) {
+            return true
+        }
+        return localTransaction.actions.every(
+            (action) =>
+                // Changes to the permission itself are authorized by its place in the hierarchy
+                (action.account.equals('eosio') &&
+                    UNLINKABLE_ACTIONS.includes(String(action.name))) ||
+                linked.some(
+                    (link) =>
+                        link.account.equals(action.account) &&
+                        (!link.action || link.action.equals('') || link.action.equals(action.name))
+                )
+        )
     }
 
     /**
-     * Check if local signing is set up for any configured contract
+     * Authorize the actions using local permissions with the session's permission instead,
+     * so the wallet can satisfy them
      */
-    async isAnySetup(session: Session): Promise<boolean> {
-        for (const config of this.actionConfigs) {
-            if (await this.isSetup(session, config.contract)) {
-                return true
-            }
+    private authorizeWithSessionPermission(
+        request: SigningRequest,
+        context: TransactContext,
+        scope: LocalSigningScope,
+        configs: LocalSigningActionConfig[]
+    ): SigningRequest {
+        let modified = request
+        for (const config of configs) {
+            const permission = this.getPermissionName(config.contract, scope.chain)
+            modified = mapActions(modified, (action) =>
+                replaceAuthorization(
+                    action,
+                    context.permissionLevel.actor,
+                    permission,
+                    context.permissionLevel
+                )
+            )
         }
-        return false
+        return modified
     }
 
     /**
-     * Teardown local signing - deletes stored private keys
+     * Discard local keys the chain no longer accepts and hand the request to the wallet
      *
-     * Called automatically via onLogout when using updated SessionKit.
-     * The on-chain permissions remain but won't be usable without the keys.
+     * Authorizations using the local permissions are rewritten to the session's permission so
+     * the wallet can satisfy them. When enabled, the user is offered to set local signing up
+     * again as part of the same wallet request.
      *
-     * @param session The session to tear down local signing for
+     * @param configs The configs of every contract with local actions in the transaction
+     * @param rejected The configs whose keys were rejected
      */
-    async teardown(session: Session): Promise<void> {
-        if (!session.storage) {
+    private async fallbackToWalletSigning(
+        request: SigningRequest,
+        context: TransactContext,
+        scope: LocalSigningScope,
+        configs: LocalSigningActionConfig[],
+        rejected: LocalSigningActionConfig[]
+    ): Promise<TransactHookResponseType> {
+        if (context.storage) {
+            for (const config of rejected) {
+                await this.deletePrivateKey(context.storage, scope, config.contract)
+            }
+        }
+
+        let modified = this.authorizeWithSessionPermission(request, context, scope, configs)
+
+        if (this.offerSetupOnFallback && context.ui && context.storage) {
+            const t = context.ui.getTranslate(this.id)
+            const approved = await this.offerSetup(
+                context.ui,
+                context.storage,
+                scope,
+                rejected,
+                (offered) => {
+                    const contracts = offered.map((config) => String(config.contract)).join(', ')
+                    return t('fallback.body', {
+                        default: `Automatic signing for ${contracts} is no longer authorized by your account, so this transaction will be signed by your wallet.\n\nWould you like to enable automatic signing again as part of this transaction?`,
+                        contract: contracts,
+                    })
+                }
+            )
+            for (const config of approved) {
+                modified = await this.addSetupActions(modified, context, scope, config)
+            }
+        }
+
+        return {request: modified}
+    }
+
+    /**
+     * Offer to set up local signing for the contracts of a matching transaction without a key
+     *
+     * The setup actions are added to the transaction being signed, so the user approves both
+     * in a single wallet interaction. A decline is stored for the chain, account and contract,
+     * which isn't offered again until the `declineCooldown` has passed.
+     */
+    private async offerSetupOnTransact(
+        request: SigningRequest,
+        context: TransactContext,
+        scope: LocalSigningScope,
+        missing: LocalSigningActionConfig[]
+    ): Promise<TransactHookResponseType> {
+        if (!context.ui || !context.storage) {
+            return
+        }
+
+        // Keys that just expired are offered again even without setupOnTransact
+        const expired = missing.filter((config) =>
+            this.expiredKeys.has(this.getStorageKey(scope, config.contract))
+        )
+        for (const config of expired) {
+            this.expiredKeys.delete(this.getStorageKey(scope, config.contract))
+        }
+
+        const t = context.ui.getTranslate(this.id)
+        const approved = await this.offerSetup(
+            context.ui,
+            context.storage,
+            scope,
+            this.setupOnTransact ? missing : expired,
+            (offered) => {
+                const renewed = offered.filter((config) => expired.includes(config))
+                if (renewed.length === 0) {
+                    return undefined
+                }
+                const contracts = renewed.map((config) => String(config.contract)).join(', ')
+                return t('expired.body', {
+                    default: `Automatic signing for ${contracts} has expired, so this transaction will be signed by your wallet.\n\nWould you like to enable automatic signing again as part of this transaction?`,
+                    contract: contracts,
+                })
+            }
+        )
+        if (approved.length === 0) {
+            return
+        }
+
+        // The wallet signs this transaction, so it can't use the permissions being created
+        let modified = request
+        for (const config of approved) {
+            const permission = this.getPermissionName(config.contract, scope.chain)
+            modified = mapActions(modified, (action) =>
+                replaceAuthorization(
+                    action,
+                    context.permissionLevel.actor,
+                    permission,
+                    context.permissionLevel
+                )
+            )
+            modified = await this.addSetupActions(modified, context, scope, config)
+        }
+        return {request: modified}
+    }
+
+    /**
+     * Add the actions setting up a new local key to a request
+     * The key is saved once the transaction has been broadcast.
+     */
+    private async addSetupActions(
+        request: SigningRequest,
+        context: TransactContext,
+        scope: LocalSigningScope,
+        config: LocalSigningActionConfig
+    ): Promise<SigningRequest> {
+        const localKey = await this.createLocalKey()
+        const actions = await this.createSetupActions(context.client, scope, config, localKey)
+        let modified = request
+        for (const action of actions) {
+            modified = appendAction(modified, action)
+        }
+
+        const pending = this.pendingSetups.get(context) || []
+        this.pendingSetups.set(context, [...pending, {scope, contract: config.contract, localKey}])
+        return modified
+    }
+
+    /**
+     * Call a lifecycle callback, ignoring its errors
+     */
+    private emit<K extends keyof LocalSigningEvents>(
+        name: K,
+        event: Parameters<Required<LocalSigningEvents>[K]>[0]
+    ): void {
+        const callback = this.events[name] as ((event: unknown) => void) | undefined
+        if (callback) {
+            try {
+                callback(event)
+            } catch {
+                // The app's callback failed, local signing carries on
+            }
+        }
+    }
+
+    /**
+     * Announce a change to the stored keys of an account to the other tabs
+     */
+    private announce(
+        type: LocalSigningSyncMessage['type'],
+        scope: LocalSigningScope,
+        contract?: NameType
+    ): void {
+        if (!this.sync) {
+            return
+        }
+        try {
+            this.sync.post({
+                type,
+                chain: String(Checksum256.from(scope.chain)),
+                actor: String(Name.from(scope.actor)),
+                contract: contract ? String(Name.from(contract)) : undefined,
+            })
+        } catch {
+            // Unable to reach the other tabs, they still read the keys from the shared storage
+        }
+    }
+
+    /**
+     * Follow a change to the stored keys announced by another tab
+     */
+    private receiveSyncMessage(message: LocalSigningSyncMessage): void {
+        const scope: LocalSigningScope = {chain: message.chain, actor: message.actor}
+        // Keys expired here were set up again or removed elsewhere, don't offer them anymore
+        const contracts = message.contract
+            ? [message.contract]
+            : this.getActionConfigs(scope.chain).map((config) => config.contract)
+        for (const contract of contracts) {
+            this.expiredKeys.delete(this.getStorageKey(scope, contract))
+        }
+        this.emit('onSync', {
+            scope,
+            type: message.type,
+            contract: message.contract ? Name.from(message.contract) : undefined,
+        })
+    }
+
+    /**
+     * Run a task while no other tab is setting up local signing for the account
+     */
+    private withSetupLock<T>(scope: LocalSigningScope, task: () => Promise<T>): Promise<T> {
+        if (!this.sync) {
+            return task()
+        }
+        const chainId = Checksum256.from(scope.chain)
+        return this.sync.lock(
+            `${STORAGE_KEY_PREFIX}-setup-${chainId}-${Name.from(scope.actor)}`,
+            task
+        )
+    }
+
+    /**
+     * Notify the user that actions were signed locally, unless disabled or throttled
+     */
+    private showSignedNotice(context: TransactContext, actions: Action[]): void {
+        if (!this.notice || (!this.notice.show && !context.ui)) {
+            return
+        }
+        const now = Date.now()
+        if (this.notice.throttle && now - this.lastNoticeAt < this.notice.throttle * 1000) {
+            return
+        }
+        this.lastNoticeAt = now
+
+        const names = actions.map((action) => `${action.account}::${action.name}`)
+        const list = names.filter((name, index) => names.indexOf(name) === index).join(', ')
+        const defaults = defaultTranslations.en.signed
+        const t = context.ui ? context.ui.getTranslate(this.id) : undefined
+        const notice: LocalSigningNotice = {
+            title: t ? t('signed.title', {default: defaults.title}) : defaults.title,
+            body: t ? t('signed.body', {default: defaults.body}) : defaults.body,
+            actions,
+        }
+        if (this.notice.show) {
+            try {
+                this.notice.show(notice, context)
+            } catch {
+                // The app's notice failed, the transaction carries on
+            }
+        } else if (context.ui) {
+            context.ui.status(`${notice.title}: ${notice.body} (${list})`)
+        }
+    }
+
+    /**
+     * Have the configured cosigner cosign a transaction about to be signed locally
+     * Returns undefined when there is no cosigner, it declines or fails, or it changed the
+     * transaction in a way that would need the account's authorization.
+     */
+    private async cosignTransaction(
+        context: TransactContext,
+        transaction: Transaction,
+        signer: PermissionLevel
+    ): Promise<CosignedTransaction | undefined> {
+        if (!this.cosigner) {
+            return
+        }
+        let cosigned: CosignedTransaction | undefined
+        try {
+            cosigned = await this.cosigner.cosign(transaction, {
+                chain: context.chain.id,
+                signer,
+                fetch: context.fetch,
+            })
+        } catch {
+            return // Sign without the cosigner, e.g. when the service is unavailable
+        }
+        if (
+            cosigned &&
+            isValidCosignedTransaction(transaction, cosigned.transaction, signer.actor)
+        ) {
+            return cosigned
+        }
+    }
+
+    /**
+     * Add the removal of expired permissions queued for the account to a request
+     * Permissions already gone from the account are dropped from the queue, those the request
+     * itself manages (e.g. setting them up again or revoking them) are left alone.
+     */
+    private async addExpiredCleanup(
+        request: SigningRequest,
+        context: TransactContext
+    ): Promise<TransactHookResponseType> {
+        if (!context.storage) {
+            return
+        }
+        const scope: LocalSigningScope = {
+            chain: context.chain.id,
+            actor: context.permissionLevel.actor,
+        }
+        const queue = await this.readRevokeQueue(context.storage, scope)
+        if (queue.length === 0) {
+            return
+        }
+
+        const pending = this.pendingSetups.get(context) || []
+        const requested = request.getRawActions().map((action) => Action.from(action))
+        const actions: Action[] = []
+        const contracts: Name[] = []
+        const removed: Name[] = []
+        for (const contract of queue) {
+            // Set up again or revoked in this transaction, leave the permission to it
+            if (
+                pending.some((setup) => contract.equals(setup.contract)) ||
+                requested.some((action) => this.managesLocalPermission(action, scope, contract))
+            ) {
+                continue
+            }
+            const config = this.getActionConfig(contract, scope.chain)
+            let verification: LocalSigningVerification
+            try {
+                verification = await this.checkPermission(
+                    context.client,
+                    scope.chain,
+                    scope.actor,
+                    contract,
+                    undefined
+                )
+            } catch {
+                continue // Unable to check the account, try again next time
+            }
+            if (!config || verification.status === 'missing') {
+                removed.push(contract)
+                continue
+            }
+            const linked = getLinkedActions(config.actions).filter(
+                (action) => !verification.unlinkedActions.some((a) => a.equals(action))
+            )
+            actions.push(
+                ...this.createUnlinkAuthActions(scope.actor, contract, linked, scope.chain),
+                this.createDeleteAuthAction(scope.actor, contract, scope.chain)
+            )
+            contracts.push(contract)
+        }
+        await this.dequeueRevoke(context.storage, scope, removed)
+        if (actions.length === 0) {
+            return
+        }
+
+        let modified = request
+        for (const action of actions) {
+            modified = appendAction(modified, action)
+        }
+        this.pendingCleanups.set(context, {scope, contracts})
+        return {request: modified}
+    }
+
+    /**
+     * Check whether an action changes the local permission of an account for a contract
+     */
+    private managesLocalPermission(
+        action: Action,
+        scope: LocalSigningScope,
+        contract: NameType
+    ): boolean {
+        if (!action.account.equals('eosio')) {
+            return false
+        }
+        const permission = this.getPermissionName(contract, scope.chain)
+        try {
+            switch (String(action.name)) {
+                case 'updateauth': {
+                    const data = action.decodeData(UpdateAuth)
+                    return data.account.equals(scope.actor) && data.permission.equals(permission)
+                }
+                case 'deleteauth': {
+                    const data = action.decodeData(DeleteAuth)
+                    return data.account.equals(scope.actor) && data.permission.equals(permission)
+                }
+                case 'linkauth': {
+                    const data = action.decodeData(LinkAuth)
+                    return data.account.equals(scope.actor) && data.requirement.equals(permission)
+                }
+                case 'unlinkauth': {
+                    const data = action.decodeData(UnlinkAuth)
+                    return data.account.equals(scope.actor) && data.code.equals(contract)
+                }
+            }
+        } catch {
+            // Not the system contract's action data
+        }
+        return false
+    }
+
+    /**
+     * Sign the local actions of a transaction with the stored keys
+     * Returns nothing (or a modified request without signatures) when the wallet should sign.
+     */
+    private async signLocally(
+        request: SigningRequest,
+        context: TransactContext
+    ): Promise<TransactHookResponseType> {
+        if (!context.storage) {
+            return // No storage, can't use local signing
+        }
+
+        // Resolve the request to get the transaction
+        const resolved = await context.resolve(request)
+        const transaction = Transaction.from(resolved.transaction)
+
+        // Find the actions that can be handled by local signing, the wallet still
+        // signs for any others (e.g. a transfer bundled with a game action)
+        const localActions = transaction.actions.filter((action) =>
+            this.isLocalSigningAction(action, context.chain.id)
+        )
+        if (localActions.length === 0) {
+            // No actions are configured for local signing, proceed normally
+            return
+        }
+
+        // Every contract with local actions needs its own key
+        const scope: LocalSigningScope = {
+            chain: context.chain.id,
+            actor: context.permissionLevel.actor,
+        }
+        const configs = this.getActionConfigs(scope.chain).filter((config) =>
+            localActions.some((action) => action.account.equals(config.contract))
+        )
+        const localKeys = new Map<LocalSigningActionConfig, LocalKey>()
+        const missing: LocalSigningActionConfig[] = []
+        for (const config of configs) {
+            await this.migrateLegacyKey(context.client, context.storage, scope, config.contract)
+            const localKey = await this.loadLocalKey(context.storage, scope, config.contract)
+            if (localKey) {
+                localKeys.set(config, localKey)
+            } else {
+                missing.push(config)
+            }
+        }
+
+        if (missing.length > 0) {
+            // A key is missing, proceed with normal signing (offering setup if enabled)
+            const contracts = missing.map((config) => Name.from(config.contract))
+            this.emit('onFallback', {scope, reason: 'missing-key', contracts})
+            return this.offerSetupOnTransact(request, context, scope, missing)
+        }
+
+        // Leave the transaction to the wallet if a policy rejects any local action
+        for (const action of localActions) {
+            if (!(await this.isAllowedByPolicies(action, context))) {
+                this.emit('onFallback', {scope, reason: 'policy', contracts: [action.account]})
+                return {
+                    request: this.authorizeWithSessionPermission(request, context, scope, configs),
+                }
+            }
+        }
+
+        // Or if signing it would exceed a rate limit or budget
+        const limitUsage = new Map<LocalSigningActionConfig, LocalSigningLimitUsage[]>()
+        for (const config of configs) {
+            let usage: LocalSigningLimitUsage[] | undefined
+            try {
+                usage = await this.countLimits(
+                    context,
+                    context.storage,
+                    scope,
+                    config,
+                    localActions
+                )
+            } catch {
+                usage = undefined // Unable to count, e.g. undecodable data
+            }
+            if (!usage) {
+                const contracts = [Name.from(config.contract)]
+                this.emit('onFallback', {scope, reason: 'limit', contracts})
+                if (context.ui) {
+                    const t = context.ui.getTranslate(this.id)
+                    context.ui.status(
+                        t('limit.exceeded', {
+                            default: `The automatic signing limit for ${config.contract} has been reached, please sign this transaction with your wallet.`,
+                            contract: String(config.contract),
+                        })
+                    )
+                }
+                return {
+                    request: this.authorizeWithSessionPermission(request, context, scope, configs),
+                }
+            }
+            limitUsage.set(config, usage)
+        }
+
+        // Authorize each contract's local actions with its local permission
+        const actor = context.permissionLevel.actor
+        let localRequest = request
+        for (const config of configs) {
+            localRequest = this.authorizeWithLocalPermission(localRequest, scope, config.contract)
+        }
+
+        const localTransaction = Transaction.from((await context.resolve(localRequest)).transaction)
+
+        // Collect the local permissions the transaction requires
+        const signers: LocalSigningActionConfig[] = []
+        for (const config of configs) {
+            const permission = this.getPermissionLevel(actor, config.contract, scope.chain)
+            // Without an authorization requiring it, a signature would be irrelevant
+            if (
+                localTransaction.actions.some((action) =>
+                    action.authorization.some((auth) => auth.equals(permission))
+                )
+            ) {
+                signers.push(config)
+            }
+        }
+        if (signers.length === 0) {
             return
         }
 
-        // Delete stored keys for all configured contracts
-        for (const config of this.actionConfigs) {
-            await this.deletePrivateKey(session.storage, config.contract)
+        // Make sure the chain accepts every local key before relying on them
+        if (this.fallbackToWallet) {
+            const rejected: LocalSigningActionConfig[] = []
+            for (const config of signers) {
+                const permission = this.getPermissionLevel(actor, config.contract, scope.chain)
+                const localKey = localKeys.get(config)!
+                if (
+                    !(await this.isAuthorizedByLocalKey(
+                        context.client,
+                        localTransaction,
+                        permission,
+                        localKey
+                    ))
+                ) {
+                    rejected.push(config)
+                }
+            }
+            if (rejected.length > 0) {
+                const contracts = rejected.map((config) => Name.from(config.contract))
+                this.emit('onFallback', {scope, reason: 'unauthorized', contracts})
+                return this.fallbackToWalletSigning(request, context, scope, configs, rejected)
+            }
+        }
+
+        // Let the cosigner add its actions (e.g. paying for resources) before signing
+        let signedRequest = localRequest
+        let signedTransaction = localTransaction
+        const signatures: Signature[] = []
+        const cosigned = await this.cosignTransaction(
+            context,
+            localTransaction,
+            this.getPermissionLevel(actor, signers[0].contract, scope.chain)
+        )
+        if (cosigned) {
+            signedRequest = await context.createRequest({transaction: cosigned.transaction})
+            signedTransaction = cosigned.transaction
+            signatures.push(...cosigned.signatures)
+        }
+
+        // Sign with every local key, the wallet adds its signatures for the rest
+        const chainId = Checksum256.from(context.chain.id)
+        for (const config of signers) {
+            signatures.push(
+                await this.signWithLocalKey(signedTransaction, chainId, localKeys.get(config)!)
+            )
+        }
+
+        // The signed actions count against the limits once the transaction is broadcast
+        const limits: PendingLimitUsage[] = []
+        for (const [config, usage] of limitUsage) {
+            if (usage.length > 0) {
+                limits.push({scope, contract: config.contract, usage})
+            }
+        }
+        if (limits.length > 0) {
+            this.pendingLimits.set(context, limits)
+        }
+
+        this.signedActions.set(context, localActions)
+
+        // Keys due for rotation are replaced once the session broadcast the transaction, a
+        // transaction it doesn't broadcast could otherwise move the permission to a lost key
+        const rotations: LocalSigningActionConfig[] = []
+        for (const config of signers) {
+            if (await this.isRotationDue(context.storage, scope, config)) {
+                rotations.push(config)
+            }
+        }
+        if (rotations.length > 0) {
+            this.pendingRotations.set(context, rotations)
+        }
+
+        // Return the signatures
+        return {
+            request: signedRequest,
+            signatures,
         }
     }
 
@@ -332,62 +3008,87 @@ export class TransactPluginLocalSigning extends AbstractTransactPlugin {
         context.addHook(
             TransactHookTypes.beforeSign,
             async (request, context): Promise<TransactHookResponseType> => {
-                if (!context.storage) {
-                    return // No storage, can't use local signing
+                const response = await this.signLocally(request, context)
+                if (response && response.signatures) {
+                    return response
                 }
+                // The wallet signs this transaction, let it clean up expired permissions too
+                const cleanup = await this.addExpiredCleanup(
+                    response ? response.request : request,
+                    context
+                )
+                return cleanup || response
+            }
+        )
 
-                // Resolve the request to get the transaction
-                const resolved = await context.resolve(request)
-                const transaction = Transaction.from(resolved.transaction)
+        context.addHook(TransactHookTypes.afterSign, async (result, context) => {
+            const actions = this.signedActions.get(context)
+            if (actions) {
+                this.signedActions.delete(context)
+                this.showSignedNotice(context, actions)
+                this.emit('onLocalSign', {
+                    scope: {chain: context.chain.id, actor: context.permissionLevel.actor},
+                    transactionId: result.resolved!.transaction.id,
+                    actions,
+                })
+            }
+        })
 
-                // Check if ALL actions in the transaction can be handled by local signing
-                const allActionsAreLocal = transaction.actions.every((action) =>
-                    this.isLocalSigningAction(action)
-                )
+        context.addHook(TransactHookTypes.afterBroadcast, async (result, context) => {
+            if (!context.storage) {
+                return
+            }
 
-                if (!allActionsAreLocal) {
-                    // Some actions aren't configured for local signing, proceed normally
-                    return
-                }
+            // Stop removing expired permissions once their removal was broadcast
+            const cleanup = this.pendingCleanups.get(context)
+            if (cleanup) {
+                this.pendingCleanups.delete(context)
+                await this.dequeueRevoke(context.storage, cleanup.scope, cleanup.contracts)
+            }
 
-                // Find a stored private key for one of the action's contracts
-                let privateKeyWif: string | undefined
-                for (const action of transaction.actions) {
-                    for (const config of this.actionConfigs) {
-                        if (Name.from(action.account).equals(config.contract)) {
-                            privateKeyWif = await this.loadPrivateKey(
-                                context.storage,
-                                config.contract
-                            )
-                            if (privateKeyWif) {
-                                break
-                            }
-                        }
-                    }
-                    if (privateKeyWif) {
-                        break
-                    }
+            // Count the actions signed locally against the limits
+            const limits = this.pendingLimits.get(context)
+            if (limits) {
+                this.pendingLimits.delete(context)
+                for (const {scope, contract, usage} of limits) {
+                    await context.storage.write(
+                        this.getLimitsStorageKey(scope, contract),
+                        JSON.stringify(usage)
+                    )
                 }
+            }
 
-                if (!privateKeyWif) {
-                    // No key stored, proceed with normal signing
-                    return
+            // Save keys whose setup was included in the broadcast transaction
+            const pending = this.pendingSetups.get(context)
+            if (pending) {
+                this.pendingSetups.delete(context)
+                for (const setup of pending) {
+                    await this.saveLocalKey(
+                        context.storage,
+                        setup.scope,
+                        setup.contract,
+                        setup.localKey
+                    )
+                    this.emit('onSetup', {
+                        scope: setup.scope,
+                        contract: Name.from(setup.contract),
+                        permission: this.getPermissionName(setup.contract, setup.scope.chain),
+                        publicKey: setup.localKey.toPublic(),
+                        transactionId: result.resolved ? result.resolved.transaction.id : undefined,
+                    })
                 }
+            }
 
-                // Sign with the local key
-                const signature = this.signWithLocalKey(
-                    transaction,
-                    Checksum256.from(context.chain.id),
-                    privateKeyWif
-                )
-
-                // Return the signatures
-                return {
-                    request,
-                    signatures: [signature],
+            // Rotate the keys that were due, with transactions of their own
+            const rotations = this.pendingRotations.get(context)
+            if (rotations) {
+                this.pendingRotations.delete(context)
+                const scope = {chain: context.chain.id, actor: context.permissionLevel.actor}
+                for (const config of rotations) {
+                    await this.rotateDueKey(context.client, context.storage, scope, config)
                 }
             }
-        )
+        })
     }
 }
 
@@ -407,9 +3108,19 @@ export class LocalSigningLoginPlugin extends AbstractLoginPlugin {
 
     /**
      * Called when a session is logged out.
-     * Cleans up stored local signing keys.
+     * Cleans up stored local signing keys, revoking the on-chain permissions first when
+     * the revokeOnLogout option is enabled.
      */
     async onLogout(session: Session): Promise<void> {
+        if (this.parent.revokeOnLogout) {
+            try {
+                await this.parent.revokeAll(session)
+            } catch {
+                // Revoke failed or was cancelled, keep the keys so the still-existing
+                // permissions remain usable (and revocable) on the next login
+                return
+            }
+        }
         await this.parent.teardown(session)
     }
 
@@ -426,86 +3137,78 @@ export class LocalSigningLoginPlugin extends AbstractLoginPlugin {
                 return
             }
 
-            const t = ctx.ui.getTranslate(this.parent.id)
+            // Keys are scoped to the chain and account that logged in
+            let scope: LocalSigningScope
+            let client: APIClient
+            if (ctxWithSession.session) {
+                scope = this.parent.getScope(ctxWithSession.session)
+                client = ctxWithSession.session.client
+            } else if (ctx.chain && ctx.permissionLevel) {
+                scope = {chain: ctx.chain.id, actor: ctx.permissionLevel.actor}
+                client = ctx.getClient(ctx.chain)
+            } else {
+                return
+            }
 
-            // Process each configured contract
-            for (const config of this.parent.getActionConfigs()) {
+            // Find the contracts that need to be set up
+            const session = ctxWithSession.session
+            const pending: LocalSigningActionConfig[] = []
+            for (const config of this.parent.getActionConfigs(scope.chain)) {
                 // Check if already set up (key exists = permission set up)
-                const existingKey = await this.parent.loadPrivateKey(storage, config.contract)
+                await this.parent.migrateLegacyKey(client, storage, scope, config.contract)
+                const existingKey = await this.parent.loadLocalKey(storage, scope, config.contract)
                 if (existingKey) {
-                    continue // Already have a key for this contract
+                    if (!session || !this.parent.verifyOnLogin) {
+                        continue // Already have a key for this contract
+                    }
+                    let verification: LocalSigningVerification
+                    try {
+                        verification = await this.parent.reconcile(session, config.contract)
+                    } catch {
+                        continue // Unable to verify or repair, keep trusting the key
+                    }
+                    if (
+                        verification.status !== 'missing' &&
+                        verification.status !== 'key-mismatch'
+                    ) {
+                        continue // Key is valid (any missing links were re-created)
+                    }
+                    // The stale key was discarded, offer to set up local signing again
                 }
+                pending.push(config)
+            }
+            if (pending.length === 0) {
+                return
+            }
 
-                const actionNames = config.actions.map((a) => String(a)).join(', ')
+            // We need the session (and its storage) to set up the permissions
+            if (!session || !session.storage) {
+                return
+            }
 
-                // Prompt the user
+            // Leave out contracts whose config doesn't match the chain, setting them up would fail
+            let valid = pending
+            if (this.parent.validateOnLogin) {
                 try {
-                    const promptResponse = await ctx.ui.prompt({
-                        title: t('prompt.title', {default: 'Enable Auto-Signing?'}),
-                        body: t('prompt.body', {
-                            default: `Would you like to enable automatic signing for the following actions on ${config.contract}?\n\nActions: ${actionNames}\n\nThis will create a new permission on your account that can only perform these specific actions.`,
-                            contract: String(config.contract),
-                            actions: actionNames,
-                        }),
-                        elements: [
-                            {
-                                type: 'button',
-                                label: t('prompt.enable', {default: 'Enable Auto-Signing'}),
-                                data: {
-                                    onClick: () => ({approved: true}),
-                                    label: t('prompt.enable', {default: 'Enable Auto-Signing'}),
-                                    variant: 'primary',
-                                },
-                            },
-                            {
-                                type: 'button',
-                                label: t('prompt.skip', {default: 'No Thanks'}),
-                                data: {
-                                    onClick: () => ({approved: false}),
-                                    label: t('prompt.skip', {default: 'No Thanks'}),
-                                },
-                            },
-                        ],
-                    })
-
-                    // Check if user approved
-                    if (!promptResponse || !(promptResponse as {approved?: boolean}).approved) {
-                        continue // User declined for this contract
-                    }
+                    const issues = await this.parent.validate(
+                        session,
+                        pending.map((config) => config.contract)
+                    )
+                    valid = pending.filter(
+                        (config) => !issues.some((issue) => issue.contract.equals(config.contract))
+                    )
                 } catch {
-                    // User closed the prompt
-                    continue
-                }
-
-                // Generate a new key pair
-                const {privateKey, publicKey} = this.parent.generateLocalKey()
-
-                // We need the session to set up the permission
-                if (!ctxWithSession.session) {
-                    continue // Can't set up without a session
+                    // Unable to fetch the ABIs, offer every contract
                 }
-
-                const updateAuthAction = this.parent.createUpdateAuthAction(
-                    ctxWithSession.session.actor,
-                    config.contract,
-                    publicKey
-                )
-                const linkAuthActions = this.parent.createLinkAuthActions(
-                    ctxWithSession.session.actor,
-                    config.contract,
-                    config.actions
-                )
-
-                // Execute the permission setup transaction
-                // If this throws, the key won't be saved (which is the desired behavior)
-                await ctxWithSession.session.transact({
-                    actions: [updateAuthAction, ...linkAuthActions],
-                })
-
-                // Only save the key after successful setup
-                // (key existing = permission set up)
-                await this.parent.savePrivateKey(storage, config.contract, String(privateKey))
             }
+
+            // Prompt the user once and set up every approved contract in one transaction,
+            // without asking again about contracts the user declined recently
+            await this.parent.setupAll(
+                session,
+                valid.map((config) => config.contract),
+                {prompt: true, ui: ctx.ui, verify: this.parent.verifyOnLogin, skipDeclined: true}
+            )
         })
     }
 
@@ -0,0 +1,103 @@
+/**
+ * Persistence for WebCrypto keys
+ *
+ * CryptoKey objects can be stored in IndexedDB without ever being exported, which allows keys
+ * created as non-extractable to survive page reloads while remaining unreadable to scripts.
+ */
+export interface CryptoKeyStore {
+    /** Retrieve a stored key, or undefined if none exists */
+    get(id: string): Promise<CryptoKey | undefined>
+    /** Store a key, replacing any existing key with the same id */
+    set(id: string, key: CryptoKey): Promise<void>
+    /** Remove a stored key */
+    remove(id: string): Promise<void>
+}
+
+/**
+ * Stores CryptoKey objects in IndexedDB (browser environments)
+ */
+export class IndexedDBCryptoKeyStore implements CryptoKeyStore {
+    constructor(readonly databaseName = 'wharfkit-local-signing', readonly storeName = 'keys') {}
+
+    /**
+     * Whether IndexedDB is available in the current environment
+     */
+    static isAvailable(): boolean {
+        return typeof indexedDB !== 'undefined'
+    }
+
+    async get(id: string): Promise<CryptoKey | undefined> {
+        const result = await this.request<CryptoKey | undefined>('readonly', (store) =>
+            store.get(id)
+        )
+        return result || undefined
+    }
+
+    async set(id: string, key: CryptoKey): Promise<void> {
+        await this.request('readwrite', (store) => store.put(key, id))
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(id))
+    }
+
+    private open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(this.databaseName, 1)
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(this.storeName)
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+    }
+
+    private async request<T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest
+    ): Promise<T> {
+        const db = await this.open()
+        try {
+            return await new Promise<T>((resolve, reject) => {
+                const transaction = db.transaction(this.storeName, mode)
+                const request = operation(transaction.objectStore(this.storeName))
+                transaction.oncomplete = () => resolve(request.result)
+                transaction.onerror = () => reject(transaction.error)
+                transaction.onabort = () => reject(transaction.error)
+            })
+        } finally {
+            db.close()
+        }
+    }
+}
+
+/**
+ * Stores CryptoKey objects in memory (non-browser environments and testing)
+ *
+ * Keys are lost when the process exits.
+ */
+export class MemoryCryptoKeyStore implements CryptoKeyStore {
+    private keys = new Map<string, CryptoKey>()
+
+    async get(id: string): Promise<CryptoKey | undefined> {
+        return this.keys.get(id)
+    }
+
+    async set(id: string, key: CryptoKey): Promise<void> {
+        this.keys.set(id, key)
+    }
+
+    async remove(id: string): Promise<void> {
+        this.keys.delete(id)
+    }
+}
+
+/**
+ * Get the default key store for the current environment
+ */
+export function getDefaultCryptoKeyStore(): CryptoKeyStore {
+    if (IndexedDBCryptoKeyStore.isAvailable()) {
+        return new IndexedDBCryptoKeyStore()
+    }
+    return new MemoryCryptoKeyStore()
+}
@@ -0,0 +1,100 @@
+import {Asset, AssetType, Int64, Name, NameType} from '@wharfkit/session'
+
+/**
+ * A limit on what the local key signs for a contract within a period
+ *
+ * Periods are fixed windows starting with the first signature counted in them.
+ */
+export interface LocalSigningLimit {
+    /** The action the limit applies to, every configured action of the contract when omitted */
+    action?: NameType
+    /** The length of the period in seconds, e.g. 60 for a per-minute limit */
+    period: number
+    /** The maximum number of actions signed in the period */
+    maxSignatures?: number
+    /** The maximum total of an asset field of the actions signed in the period */
+    budget?: {
+        /** The name of the field in the action data */
+        field: string
+        /** The largest total allowed, e.g. `'10.0000 EOS'` */
+        max: AssetType
+    }
+}
+
+/**
+ * The usage counted against a limit in its current period, as persisted in storage
+ */
+export interface LocalSigningLimitUsage {
+    /** When the period started, in milliseconds since the epoch */
+    start: number
+    /** The number of actions signed */
+    count: number
+    /** The total units of the budget asset spent */
+    spent: string
+}
+
+/**
+ * An action to count against the limits, with its decoded data
+ */
+export interface LocalSigningLimitAction {
+    name: Name
+    data: Record<string, unknown>
+}
+
+/**
+ * Count actions against a contract's limits
+ *
+ * Returns the updated usage for each limit, or undefined if signing the actions would exceed
+ * any of them.
+ *
+ * @param limits The limits configured for the contract
+ * @param usage The usage stored for each limit, in the same order
+ * @param actions The actions about to be signed
+ * @param now The current time in milliseconds since the epoch
+ */
+export function countLimits(
+    limits: LocalSigningLimit[],
+    usage: (LocalSigningLimitUsage | undefined)[],
+    actions: LocalSigningLimitAction[],
+    now: number
+): LocalSigningLimitUsage[] | undefined {
+    const updated: LocalSigningLimitUsage[] = []
+    for (const [index, limit] of limits.entries()) {
+        const previous = usage[index]
+        const current =
+            previous && now - previous.start < limit.period * 1000
+                ? previous
+                : {start: now, count: 0, spent: '0'}
+
+        const matching = actions.filter(
+            (action) => limit.action === undefined || action.name.equals(limit.action)
+        )
+        if (matching.length === 0) {
+            updated.push(current)
+            continue
+        }
+
+        const count = current.count + matching.length
+        if (limit.maxSignatures !== undefined && count > limit.maxSignatures) {
+            return undefined
+        }
+
+        let spent = Int64.from(current.spent)
+        if (limit.budget) {
+            const max = Asset.from(limit.budget.max)
+            for (const action of matching) {
+                const value = Asset.from(action.data[limit.budget.field] as AssetType)
+                if (!value.symbol.equals(max.symbol)) {
+                    return undefined // Not covered by the budget
+                }
+                spent = spent.adding(value.units)
+            }
+            if (spent.gt(max.units)) {
+                return undefined
+            }
+        }
+
+        updated.push({start: current.start, count, spent: String(spent)})
+    }
+    return updated
+}
@@ -0,0 +1,71 @@
+import {Asset, AssetType, Name} from '@wharfkit/session'
+
+/**
+ * The action a policy is asked to approve
+ */
+export interface LocalSigningPolicyContext {
+    /** The account the local key signs for */
+    actor: Name
+    /** The contract of the action */
+    contract: Name
+    /** The name of the action */
+    action: Name
+}
+
+/**
+ * Decides whether the local key may sign an action, given its ABI-decoded data
+ *
+ * The data is in its JSON form, e.g. names and assets as strings. Returning false (or
+ * throwing) leaves the transaction to the wallet.
+ */
+export type LocalSigningPolicy = (
+    data: Record<string, unknown>,
+    context: LocalSigningPolicyContext
+) => boolean | Promise<boolean>
+
+/**
+ * Only allow an action when a field holds one of the given values
+ *
+ * @param field The name of the field in the action data
+ * @param values The allowed values, compared as strings
+ */
+export function allowValues(field: string, values: unknown[]): LocalSigningPolicy {
+    const allowed = values.map((value) => String(value))
+    return (data) => allowed.includes(String(data[field]))
+}
+
+/**
+ * Only allow an action when a numeric field doesn't exceed a maximum
+ *
+ * @param field The name of the field in the action data
+ * @param max The largest allowed value
+ */
+export function maxValue(field: string, max: number): LocalSigningPolicy {
+    return (data) => {
+        const value = Number(data[field])
+        return !isNaN(value) && value <= max
+    }
+}
+
+/**
+ * Only allow an action when an asset field doesn't exceed a maximum of the same symbol
+ *
+ * @param field The name of the field in the action data
+ * @param max The largest allowed amount, e.g. `'10.0000 EOS'`
+ */
+export function maxAsset(field: string, max: AssetType): LocalSigningPolicy {
+    const limit = Asset.from(max)
+    return (data) => {
+        const value = Asset.from(data[field] as AssetType)
+        return value.symbol.equals(limit.symbol) && value.units.lte(limit.units)
+    }
+}
+
+/**
+ * Only allow an action when a field names the signing account, e.g. the receiver of a claim
+ *
+ * @param field The name of the field in the action data
+ */
+export function requireActor(field: string): LocalSigningPolicy {
+    return (data, context) => context.actor.equals(String(data[field]))
+}
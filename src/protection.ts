@@ -0,0 +1,275 @@
+import {CryptoKeyStore, IndexedDBCryptoKeyStore} from './keystore'
+
+/** Current version of the envelope that stored keys are wrapped in */
+export const KEY_ENVELOPE_VERSION = 1
+
+/**
+ * The versioned record written to storage for each local key
+ *
+ * Records written before envelopes existed are plain base64 strings and are read as version 0.
+ */
+export interface KeyEnvelope {
+    /** The envelope format version */
+    v: number
+    /** The id of the key protection that produced the payload */
+    p: string
+    /** The protected payload */
+    d: string
+    /**
+     * When the key was set up, in milliseconds since the epoch (absent in older records).
+     * Rotating the key keeps this time, so keys still expire counting from their setup.
+     */
+    t?: number
+    /** When the key was last rotated, in milliseconds since the epoch (absent if never) */
+    r?: number
+}
+
+/**
+ * Protects local private keys before they are written to storage
+ */
+export interface LocalKeyProtection {
+    /** Identifier recorded in the envelope so the matching protection is used to read it back */
+    readonly id: string
+    /** Turn a private key into a payload that is safe to store */
+    protect(privateKey: string): Promise<string>
+    /** Recover the private key from a stored payload */
+    unprotect(payload: string): Promise<string>
+}
+
+/**
+ * Wrap a protected payload in a versioned envelope for storage
+ */
+export function encodeKeyEnvelope(
+    protectionId: string,
+    payload: string,
+    createdAt?: number,
+    rotatedAt?: number
+): string {
+    const envelope: KeyEnvelope = {v: KEY_ENVELOPE_VERSION, p: protectionId, d: payload}
+    if (createdAt !== undefined) {
+        envelope.t = createdAt
+    }
+    if (rotatedAt !== undefined) {
+        envelope.r = rotatedAt
+    }
+    return JSON.stringify(envelope)
+}
+
+/**
+ * Read a stored record, treating anything that isn't an envelope as a legacy base64 record
+ */
+export function decodeKeyEnvelope(value: string): KeyEnvelope {
+    if (value.startsWith('{')) {
+        try {
+            const envelope = JSON.parse(value)
+            if (
+                typeof envelope.v === 'number' &&
+                typeof envelope.p === 'string' &&
+                typeof envelope.d === 'string'
+            ) {
+                return envelope
+            }
+        } catch {
+            // Not an envelope, fall through to the legacy format
+        }
+    }
+    return {v: 0, p: Base64KeyProtection.id, d: value}
+}
+
+/**
+ * Encode bytes as base64 in both browsers and Node.js
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    if (typeof btoa !== 'undefined') {
+        return btoa(String.fromCharCode(...bytes))
+    }
+    // Node.js fallback
+    return Buffer.from(bytes).toString('base64')
+}
+
+/**
+ * Decode base64 to bytes in both browsers and Node.js
+ */
+export function base64ToBytes(encoded: string): Uint8Array {
+    if (typeof atob !== 'undefined') {
+        return Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0))
+    }
+    // Node.js fallback
+    return new Uint8Array(Buffer.from(encoded, 'base64'))
+}
+
+/**
+ * Simple obfuscation to prevent browser extensions from detecting private keys.
+ * Extensions often scan for WIF patterns like "5J...", "5K...", "5H...".
+ * Base64 encoding breaks these patterns.
+ *
+ * This is the format used before encryption was available. It offers no protection against
+ * scripts that can read storage and is only used when WebCrypto is unavailable.
+ */
+export class Base64KeyProtection implements LocalKeyProtection {
+    static readonly id = 'base64'
+    readonly id = Base64KeyProtection.id
+
+    async protect(privateKey: string): Promise<string> {
+        return bytesToBase64(new TextEncoder().encode(privateKey))
+    }
+
+    async unprotect(payload: string): Promise<string> {
+        return new TextDecoder().decode(base64ToBytes(payload))
+    }
+}
+
+/**
+ * Options for the AESGCMKeyProtection
+ */
+export interface AESGCMKeyProtectionOptions {
+    /**
+     * Where the per-install wrapping key is kept, defaults to IndexedDB. Required outside the
+     * browser unless a passphrase or deriveKey is given, the key must outlive the process.
+     */
+    keyStore?: CryptoKeyStore
+    /** The id of the wrapping key within the key store */
+    keyId?: string
+    /** Derive the encryption key from an app-supplied passphrase instead of the wrapping key */
+    passphrase?: string | (() => string | Promise<string>)
+    /** The number of PBKDF2 iterations used with a passphrase */
+    iterations?: number
+    /** Derive the encryption key with an app-supplied callback, given the per-record salt */
+    deriveKey?: (salt: Uint8Array) => Promise<CryptoKey>
+}
+
+/**
+ * Encrypts local private keys with AES-GCM through WebCrypto
+ *
+ * By default a non-extractable per-install wrapping key is generated and kept in the key store,
+ * so the stored records are useless without access to that key. Apps may instead supply a
+ * passphrase (stretched with PBKDF2) or their own key-derivation callback.
+ *
+ * Without IndexedDB there is nowhere to persist the wrapping key, so outside the browser a
+ * `keyStore`, `passphrase` or `deriveKey` must be given.
+ */
+export class AESGCMKeyProtection implements LocalKeyProtection {
+    readonly id = 'aes-gcm'
+
+    private keyStore?: CryptoKeyStore
+    private keyId: string
+    private passphrase?: string | (() => string | Promise<string>)
+    private iterations: number
+    private deriveKey?: (salt: Uint8Array) => Promise<CryptoKey>
+    private wrappingKey?: Promise<CryptoKey>
+
+    constructor(options: AESGCMKeyProtectionOptions = {}) {
+        this.keyStore = options.keyStore
+        this.keyId = options.keyId || 'localsession-wrapping-key'
+        this.passphrase = options.passphrase
+        this.iterations = options.iterations || 210000
+        this.deriveKey = options.deriveKey
+    }
+
+    /**
+     * Whether WebCrypto is available in the current environment
+     */
+    static isAvailable(): boolean {
+        return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined'
+    }
+
+    async protect(privateKey: string): Promise<string> {
+        const salt = crypto.getRandomValues(new Uint8Array(16))
+        const iv = crypto.getRandomValues(new Uint8Array(12))
+        const key = await this.getKey(salt)
+        const ciphertext = await crypto.subtle.encrypt(
+            {name: 'AES-GCM', iv},
+            key,
+            new TextEncoder().encode(privateKey)
+        )
+        return [salt, iv, new Uint8Array(ciphertext)].map(bytesToBase64).join('.')
+    }
+
+    async unprotect(payload: string): Promise<string> {
+        const [salt, iv, ciphertext] = payload.split('.').map(base64ToBytes)
+        if (!salt || !iv || !ciphertext) {
+            throw new Error('Invalid AES-GCM payload')
+        }
+        const key = await this.getKey(salt)
+        const plaintext = await crypto.subtle.decrypt({name: 'AES-GCM', iv}, key, ciphertext)
+        return new TextDecoder().decode(plaintext)
+    }
+
+    /**
+     * Get the encryption key for a record
+     */
+    private async getKey(salt: Uint8Array): Promise<CryptoKey> {
+        if (this.deriveKey) {
+            return this.deriveKey(salt)
+        }
+        if (this.passphrase !== undefined) {
+            return this.getPassphraseKey(salt)
+        }
+        if (!this.wrappingKey) {
+            this.wrappingKey = this.getWrappingKey()
+            // Allow a retry if loading the key failed
+            this.wrappingKey.catch(() => (this.wrappingKey = undefined))
+        }
+        return this.wrappingKey
+    }
+
+    /**
+     * Stretch the passphrase into an AES-GCM key using the per-record salt
+     */
+    private async getPassphraseKey(salt: Uint8Array): Promise<CryptoKey> {
+        const passphrase =
+            typeof this.passphrase === 'function' ? await this.passphrase() : this.passphrase
+        const material = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(passphrase),
+            'PBKDF2',
+            false,
+            ['deriveKey']
+        )
+        return crypto.subtle.deriveKey(
+            {name: 'PBKDF2', salt, iterations: this.iterations, hash: 'SHA-256'},
+            material,
+            {name: 'AES-GCM', length: 256},
+            false,
+            ['encrypt', 'decrypt']
+        )
+    }
+
+    /**
+     * Load the per-install wrapping key, generating it on first use
+     */
+    private async getWrappingKey(): Promise<CryptoKey> {
+        if (!this.keyStore) {
+            // A wrapping key kept in memory would leave every stored key unreadable on restart
+            if (!IndexedDBCryptoKeyStore.isAvailable()) {
+                throw new Error(
+                    'AESGCMKeyProtection needs a keyStore, passphrase or deriveKey outside the browser'
+                )
+            }
+            this.keyStore = new IndexedDBCryptoKeyStore()
+        }
+        const existing = await this.keyStore.get(this.keyId)
+        if (existing) {
+            return existing
+        }
+        const key = await crypto.subtle.generateKey({name: 'AES-GCM', length: 256}, false, [
+            'encrypt',
+            'decrypt',
+        ])
+        await this.keyStore.set(this.keyId, key)
+        return key
+    }
+}
+
+/**
+ * Get the strongest key protection available in the current environment
+ *
+ * AES-GCM is only used when its wrapping key can be persisted in IndexedDB, elsewhere (e.g.
+ * bots and Node apps) keys are stored base64 encoded unless a key protection is configured.
+ */
+export function getDefaultKeyProtection(): LocalKeyProtection {
+    if (AESGCMKeyProtection.isAvailable() && IndexedDBCryptoKeyStore.isAvailable()) {
+        return new AESGCMKeyProtection()
+    }
+    return new Base64KeyProtection()
+}
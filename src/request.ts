@@ -0,0 +1,121 @@
+import {
+    Action,
+    NameType,
+    PermissionLevel,
+    PermissionLevelType,
+    PlaceholderName,
+    SigningRequest,
+    Transaction,
+} from '@wharfkit/session'
+
+/**
+ * Apply a function to every action in a SigningRequest.
+ *
+ * @param request SigningRequest
+ * @param mapper Function returning the replacement for each action
+ * @returns SigningRequest
+ */
+export function mapActions(
+    request: SigningRequest,
+    mapper: (action: Action) => Action
+): SigningRequest {
+    const cloned = request.clone()
+    switch (cloned.data.req.variantName) {
+        case 'action': {
+            cloned.data.req.value = mapper(cloned.data.req.value as Action)
+            break
+        }
+        case 'action[]': {
+            cloned.data.req.value = (cloned.data.req.value as Action[]).map(mapper)
+            break
+        }
+        case 'transaction': {
+            const tx = cloned.data.req.value as Transaction
+            tx.actions = tx.actions.map(mapper)
+            cloned.data.req.value = tx
+            break
+        }
+        default: {
+            throw new Error('unknown data req type')
+        }
+    }
+    return cloned
+}
+
+/**
+ * Replace an action's authorizations by an actor's permission with another permission level.
+ *
+ * Authorizations using the request placeholder for the actor are matched as well.
+ *
+ * @param action Action
+ * @param actor The account whose authorizations should be replaced
+ * @param permission The permission being replaced
+ * @param replacement The permission level to use instead
+ * @returns Action
+ */
+export function replaceAuthorization(
+    action: Action,
+    actor: NameType,
+    permission: NameType,
+    replacement: PermissionLevelType
+): Action {
+    let modified = false
+    const authorization = action.authorization.map((auth) => {
+        if (
+            (auth.actor.equals(actor) || auth.actor.equals(PlaceholderName)) &&
+            auth.permission.equals(permission)
+        ) {
+            modified = true
+            return PermissionLevel.from(replacement)
+        }
+        return auth
+    })
+    if (!modified) {
+        return action
+    }
+    return Action.from({
+        account: action.account,
+        name: action.name,
+        authorization,
+        data: action.data,
+    })
+}
+
+/**
+ * Replace every authorization by an actor on an action with a single permission level.
+ *
+ * Authorizations using the request placeholder for the actor are matched as well,
+ * authorizations by other accounts are kept.
+ *
+ * @param action Action
+ * @param actor The account whose authorizations should be replaced
+ * @param replacement The permission level to authorize the action with instead
+ * @returns Action
+ */
+export function replaceActorAuthorization(
+    action: Action,
+    actor: NameType,
+    replacement: PermissionLevelType
+): Action {
+    const level = PermissionLevel.from(replacement)
+    const authorization: PermissionLevel[] = []
+    for (const auth of action.authorization) {
+        const matches = auth.actor.equals(actor) || auth.actor.equals(PlaceholderName)
+        const next = matches ? level : auth
+        if (!authorization.some((existing) => existing.equals(next))) {
+            authorization.push(next)
+        }
+    }
+    if (
+        authorization.length === action.authorization.length &&
+        authorization.every((auth, index) => auth.equals(action.authorization[index]))
+    ) {
+        return action
+    }
+    return Action.from({
+        account: action.account,
+        name: action.name,
+        authorization,
+        data: action.data,
+    })
+}
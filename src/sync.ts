@@ -0,0 +1,205 @@
+/**
+ * A change to the local signing state of an account, announced to the other tabs
+ *
+ * - `saved`: a key was stored for the contract, after it was set up or rotated
+ * - `deleted`: the stored key for the contract was removed
+ * - `teardown`: every stored key of the account was removed, e.g. on logout
+ */
+export interface LocalSigningSyncMessage {
+    type: 'saved' | 'deleted' | 'teardown'
+    /** The chain ID of the account */
+    chain: string
+    /** The account name */
+    actor: string
+    /** The contract the change is for, except for `teardown` */
+    contract?: string
+}
+
+/**
+ * Keeps the local signing state of the tabs of an app in sync
+ *
+ * Stored keys are shared by the tabs through the session storage, what the sync adds is
+ * announcing changes so other tabs can react to them, and a lock so only one of them sets up
+ * (or rotates) local signing for an account at a time.
+ */
+export interface LocalSigningSync {
+    /** Announce a change to the other tabs */
+    post(message: LocalSigningSyncMessage): void
+    /** Listen for changes announced by other tabs, returns a function to stop listening */
+    subscribe(listener: (message: LocalSigningSyncMessage) => void): () => void
+    /** Run a task while holding a lock shared by every tab, waiting for any other holder first */
+    lock<T>(name: string, task: () => Promise<T>): Promise<T>
+}
+
+/**
+ * Run a task once the previous holders of a lock in this context are done
+ */
+function queueLock<T>(
+    locks: Map<string, Promise<unknown>>,
+    name: string,
+    task: () => Promise<T>
+): Promise<T> {
+    const previous = locks.get(name) || Promise.resolve()
+    const result = previous.then(task, task)
+    const settled = result.catch(() => undefined)
+    locks.set(name, settled)
+    settled.then(() => {
+        if (locks.get(name) === settled) {
+            locks.delete(name)
+        }
+    })
+    return result
+}
+
+/**
+ * Run a task while holding a lock, using the Web Locks API when available
+ * Without it, the lock only covers the current tab.
+ */
+function withLock<T>(
+    locks: Map<string, Promise<unknown>>,
+    name: string,
+    task: () => Promise<T>
+): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        return navigator.locks.request(name, task)
+    }
+    return queueLock(locks, name, task)
+}
+
+/**
+ * Syncs tabs through a BroadcastChannel (browser environments)
+ */
+export class BroadcastChannelSync implements LocalSigningSync {
+    private channel: BroadcastChannel
+    private locks = new Map<string, Promise<unknown>>()
+
+    constructor(readonly channelName = 'wharfkit-local-signing') {
+        this.channel = new BroadcastChannel(channelName)
+    }
+
+    /**
+     * Whether BroadcastChannel is available in the current environment
+     */
+    static isAvailable(): boolean {
+        return typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined'
+    }
+
+    post(message: LocalSigningSyncMessage): void {
+        this.channel.postMessage(message)
+    }
+
+    subscribe(listener: (message: LocalSigningSyncMessage) => void): () => void {
+        const handler = (event: MessageEvent) => listener(event.data)
+        this.channel.addEventListener('message', handler)
+        return () => this.channel.removeEventListener('message', handler)
+    }
+
+    lock<T>(name: string, task: () => Promise<T>): Promise<T> {
+        return withLock(this.locks, name, task)
+    }
+
+    /**
+     * Close the channel, no messages are sent or received afterwards
+     */
+    close(): void {
+        this.channel.close()
+    }
+}
+
+/**
+ * Syncs tabs through localStorage events, for browsers without BroadcastChannel
+ *
+ * Each message is written to a single localStorage entry, which other tabs of the same origin
+ * are notified of.
+ */
+export class StorageEventSync implements LocalSigningSync {
+    private locks = new Map<string, Promise<unknown>>()
+
+    constructor(readonly storageKey = 'wharfkit-local-signing-sync') {}
+
+    /**
+     * Whether localStorage events are available in the current environment
+     */
+    static isAvailable(): boolean {
+        return typeof window !== 'undefined' && !!window.localStorage
+    }
+
+    post(message: LocalSigningSyncMessage): void {
+        // Writing the same value again isn't an event, so each message is made unique
+        const nonce = `${Date.now()}-${Math.random()}`
+        window.localStorage.setItem(this.storageKey, JSON.stringify({message, nonce}))
+    }
+
+    subscribe(listener: (message: LocalSigningSyncMessage) => void): () => void {
+        const handler = (event: StorageEvent) => {
+            if (event.key !== this.storageKey || !event.newValue) {
+                return
+            }
+            try {
+                listener(JSON.parse(event.newValue).message)
+            } catch {
+                // Not a message written by this sync
+            }
+        }
+        window.addEventListener('storage', handler)
+        return () => window.removeEventListener('storage', handler)
+    }
+
+    lock<T>(name: string, task: () => Promise<T>): Promise<T> {
+        return withLock(this.locks, name, task)
+    }
+}
+
+/**
+ * Syncs instances within the same process (non-browser environments and testing)
+ *
+ * Instances created with `connect()` act as other tabs of the same app.
+ */
+export class MemorySync implements LocalSigningSync {
+    private listeners = new Set<(message: LocalSigningSyncMessage) => void>()
+    private peers: Set<MemorySync>
+    private locks: Map<string, Promise<unknown>>
+
+    constructor(group?: MemorySync) {
+        this.peers = group ? group.peers : new Set()
+        this.locks = group ? group.locks : new Map()
+        this.peers.add(this)
+    }
+
+    /**
+     * Create another instance receiving the messages of this one and sharing its locks
+     */
+    connect(): MemorySync {
+        return new MemorySync(this)
+    }
+
+    post(message: LocalSigningSyncMessage): void {
+        for (const peer of this.peers) {
+            if (peer !== this) {
+                peer.listeners.forEach((listener) => listener(message))
+            }
+        }
+    }
+
+    subscribe(listener: (message: LocalSigningSyncMessage) => void): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    lock<T>(name: string, task: () => Promise<T>): Promise<T> {
+        return queueLock(this.locks, name, task)
+    }
+}
+
+/**
+ * Get the default sync for the current environment
+ */
+export function getDefaultSync(): LocalSigningSync {
+    if (BroadcastChannelSync.isAvailable()) {
+        return new BroadcastChannelSync()
+    }
+    if (StorageEventSync.isAvailable()) {
+        return new StorageEventSync()
+    }
+    return new MemorySync()
+}
@@ -0,0 +1,34 @@
+import {Authority, Name, Struct} from '@wharfkit/session'
+
+/** eosio::updateauth action data */
+@Struct.type('updateauth')
+export class UpdateAuth extends Struct {
+    @Struct.field(Name) declare account: Name
+    @Struct.field(Name) declare permission: Name
+    @Struct.field(Name) declare parent: Name
+    @Struct.field(Authority) declare auth: Authority
+}
+
+/** eosio::deleteauth action data */
+@Struct.type('deleteauth')
+export class DeleteAuth extends Struct {
+    @Struct.field(Name) declare account: Name
+    @Struct.field(Name) declare permission: Name
+}
+
+/** eosio::linkauth action data */
+@Struct.type('linkauth')
+export class LinkAuth extends Struct {
+    @Struct.field(Name) declare account: Name
+    @Struct.field(Name) declare code: Name
+    @Struct.field(Name) declare type: Name
+    @Struct.field(Name) declare requirement: Name
+}
+
+/** eosio::unlinkauth action data */
+@Struct.type('unlinkauth')
+export class UnlinkAuth extends Struct {
+    @Struct.field(Name) declare account: Name
+    @Struct.field(Name) declare code: Name
+    @Struct.field(Name) declare type: Name
+}
@@ -0,0 +1,100 @@
+import {ABI, Name, NameType} from '@wharfkit/session'
+
+import {isActionPattern, LocalSigningActions, matchesAction} from './actions'
+
+/**
+ * A problem with the configured actions of a contract
+ */
+export interface LocalSigningConfigIssue {
+    /** The contract the problem is with */
+    contract: Name
+    /** The configured action or pattern the problem is with, if any */
+    action?: string
+    /** A description of the problem */
+    message: string
+}
+
+/**
+ * Check configured actions against the ABI of their contract
+ *
+ * @param contract The contract account name
+ * @param actions The configured actions
+ * @param abi The ABI of the contract, undefined if it has none
+ * @param referenced Action names used elsewhere in the config, e.g. by policies and limits
+ */
+export function findConfigIssues(
+    contract: NameType,
+    actions: LocalSigningActions,
+    abi: ABI | undefined,
+    referenced: NameType[] = []
+): LocalSigningConfigIssue[] {
+    const name = Name.from(contract)
+    if (!abi) {
+        return [{contract: name, message: `${name} has no contract deployed on this chain`}]
+    }
+
+    const names = abi.actions.map((action) => Name.from(action.name))
+    const issues: LocalSigningConfigIssue[] = []
+    if (actions === '*') {
+        if (names.length === 0) {
+            issues.push({contract: name, action: '*', message: `${name} has no actions`})
+        }
+    } else {
+        for (const action of actions) {
+            const exists = isActionPattern(action)
+                ? names.some((existing) => matchesAction([action], existing))
+                : names.some((existing) => existing.equals(action))
+            if (!exists) {
+                const message = isActionPattern(action)
+                    ? `No action of ${name} matches ${action}`
+                    : `${action} is not an action of ${name}`
+                issues.push({contract: name, action: String(action), message})
+            }
+        }
+    }
+    for (const action of referenced) {
+        if (!names.some((existing) => existing.equals(action))) {
+            issues.push({
+                contract: name,
+                action: String(action),
+                message: `A policy or limit refers to ${action}, which is not an action of ${name}`,
+            })
+        }
+    }
+    return issues
+}
+
+/**
+ * Options for choosing the actions of a config built from an ABI
+ */
+export interface ActionConfigFromAbiOptions {
+    /** Only include these actions, names ending in `*` match a prefix */
+    include?: NameType[]
+    /** Leave out these actions, names ending in `*` match a prefix */
+    exclude?: NameType[]
+    /** Only include the actions this returns true for, e.g. based on their ricardian contract */
+    filter?: (action: ABI.Action) => boolean
+}
+
+/**
+ * Build an action config listing the actions of a contract's ABI
+ *
+ * @param contract The contract account name
+ * @param abi The ABI of the contract
+ * @param options How to choose the actions, every action of the ABI by default
+ */
+export function createActionConfigFromAbi(
+    contract: NameType,
+    abi: ABI,
+    options: ActionConfigFromAbiOptions = {}
+): {contract: Name; actions: Name[]} {
+    const actions = abi.actions
+        .filter(
+            (action) =>
+                (!options.include || matchesAction(options.include, action.name)) &&
+                !(options.exclude && matchesAction(options.exclude, action.name)) &&
+                (!options.filter || options.filter(action))
+        )
+        .map((action) => Name.from(action.name))
+    return {contract: Name.from(contract), actions}
+}
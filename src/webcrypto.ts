@@ -0,0 +1,90 @@
+import {Bytes, BytesType, Checksum256, PublicKey, Signature} from '@wharfkit/session'
+
+/** The order of the P-256 curve, used to normalize signatures to low-S form */
+const P256_ORDER = BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551')
+
+/**
+ * A non-extractable P-256 key held by WebCrypto, used for R1 signatures
+ *
+ * The private key never exists outside of the CryptoKey object, so the app can use it to sign
+ * but has no way to read it.
+ */
+export class WebCryptoLocalKey {
+    /** Envelope id for stored records, whose payload is the public key */
+    static readonly envelopeId = 'webcrypto'
+
+    constructor(readonly privateKey: CryptoKey, readonly publicKey: PublicKey) {}
+
+    /**
+     * Whether WebCrypto is available in the current environment
+     */
+    static isAvailable(): boolean {
+        return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined'
+    }
+
+    /**
+     * Generate a new non-extractable P-256 key pair
+     */
+    static async generate(): Promise<WebCryptoLocalKey> {
+        const pair = await crypto.subtle.generateKey({name: 'ECDSA', namedCurve: 'P-256'}, false, [
+            'sign',
+            'verify',
+        ])
+        const raw = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey))
+        return new WebCryptoLocalKey(pair.privateKey, publicKeyFromRaw(raw))
+    }
+
+    /**
+     * Return the public key, mirroring PrivateKey.toPublic()
+     */
+    toPublic(): PublicKey {
+        return this.publicKey
+    }
+
+    /**
+     * Sign a message, WebCrypto hashes it with SHA-256 so the signature is over its digest
+     */
+    async signMessage(message: BytesType): Promise<Signature> {
+        const data = Bytes.from(message).array
+        const signed = new Uint8Array(
+            await crypto.subtle.sign({name: 'ECDSA', hash: 'SHA-256'}, this.privateKey, data)
+        )
+        const r = signed.slice(0, 32)
+        const s = toLowS(signed.slice(32, 64))
+        const digest = Checksum256.hash(data)
+        // WebCrypto doesn't return the recovery id, find the one that yields our public key
+        for (let recid = 0; recid < 4; recid++) {
+            const signature = Signature.from({type: 'R1', r, s, recid})
+            try {
+                if (signature.recoverDigest(digest).equals(this.publicKey)) {
+                    return signature
+                }
+            } catch {
+                // Not a valid recovery id for this signature
+            }
+        }
+        throw new Error('Unable to determine recovery id for R1 signature')
+    }
+}
+
+/**
+ * Convert an uncompressed raw P-256 public key into an R1 PublicKey
+ */
+function publicKeyFromRaw(raw: Uint8Array): PublicKey {
+    const compressed = new Uint8Array(33)
+    compressed[0] = raw[64] & 1 ? 0x03 : 0x02
+    compressed.set(raw.subarray(1, 33), 1)
+    return PublicKey.from({type: 'R1', compressed})
+}
+
+/**
+ * Normalize the S value of a signature to the lower half of the curve order
+ */
+function toLowS(s: Uint8Array): Uint8Array {
+    const value = BigInt('0x' + Bytes.from(s).hexString)
+    if (value <= P256_ORDER / BigInt(2)) {
+        return s
+    }
+    const normalized = (P256_ORDER - value).toString(16).padStart(64, '0')
+    return Bytes.from(normalized, 'hex').array
+}
@@ -1,13 +1,60 @@
 import {assert} from 'chai'
 
 import {
+    AESGCMKeyProtection,
+    allowValues,
+    Base64KeyProtection,
+    countLimits,
+    createActionConfigFromAbi,
+    decodeKeyEnvelope,
+    DeleteAuth,
+    encodeKeyEnvelope,
+    getLinkedActions,
+    isAuthorizationError,
+    LinkAuth,
     LocalSigningLoginPlugin,
+    LocalSigningNotice,
+    LocalSigningPolicy,
+    LocalSigningPolicyContext,
+    LocalSigningScope,
+    LocalSigningSignEvent,
+    LocalSigningSyncEvent,
+    LocalSigningSyncMessage,
+    matchesAction,
+    maxAsset,
+    maxValue,
+    MemoryCryptoKeyStore,
+    MemorySync,
     TransactPluginLocalSigning,
+    requireActor,
+    ResourceProviderCosigner,
     TransactPluginLocalSigningOptions,
+    UnlinkAuth,
+    UpdateAuth,
+    WebCryptoLocalKey,
 } from '../../src/index'
 
-import {Name, PrivateKey, Session, SessionArgs, SessionOptions} from '@wharfkit/session'
-import {mockFetch, MockStorage} from '@wharfkit/mock-data'
+import {
+    ABI,
+    Cancelable,
+    cancelable,
+    LoginContext,
+    Name,
+    PackedTransaction,
+    PermissionLevel,
+    PrivateKey,
+    PromptArgs,
+    PromptResponse,
+    Session,
+    SessionArgs,
+    Serializer,
+    SessionOptions,
+    SigningRequest,
+    Transaction,
+    UserInterface,
+    UserInterfaceTranslateOptions,
+} from '@wharfkit/session'
+import {mockFetch, MockStorage, MockUserInterface} from '@wharfkit/mock-data'
 import {WalletPluginPrivateKey} from '@wharfkit/wallet-plugin-privatekey'
 
 const wallet = new WalletPluginPrivateKey('5Jtoxgny5tT7NiNFp1MLogviuPJ9NniWjnU4wKzaX4t7pL4kJ8s')
@@ -21,6 +68,311 @@ const mockSessionArgs: SessionArgs = {
     walletPlugin: wallet,
 }
 
+const mockScope: LocalSigningScope = {
+    chain: '73e4385a2708e6d7048834fbc1079f2fabb17b3c125b146af438971e90716c4d',
+    actor: 'wharfkit1131',
+}
+
+/**
+ * The parts of the eosio ABI needed to resolve permission management actions
+ */
+const eosioAuthAbi = ABI.from({
+    version: 'eosio::abi/1.1',
+    types: [],
+    structs: [
+        {
+            name: 'permission_level',
+            base: '',
+            fields: [
+                {name: 'actor', type: 'name'},
+                {name: 'permission', type: 'name'},
+            ],
+        },
+        {
+            name: 'key_weight',
+            base: '',
+            fields: [
+                {name: 'key', type: 'public_key'},
+                {name: 'weight', type: 'uint16'},
+            ],
+        },
+        {
+            name: 'permission_level_weight',
+            base: '',
+            fields: [
+                {name: 'permission', type: 'permission_level'},
+                {name: 'weight', type: 'uint16'},
+            ],
+        },
+        {
+            name: 'wait_weight',
+            base: '',
+            fields: [
+                {name: 'wait_sec', type: 'uint32'},
+                {name: 'weight', type: 'uint16'},
+            ],
+        },
+        {
+            name: 'authority',
+            base: '',
+            fields: [
+                {name: 'threshold', type: 'uint32'},
+                {name: 'keys', type: 'key_weight[]'},
+                {name: 'accounts', type: 'permission_level_weight[]'},
+                {name: 'waits', type: 'wait_weight[]'},
+            ],
+        },
+        {
+            name: 'updateauth',
+            base: '',
+            fields: [
+                {name: 'account', type: 'name'},
+                {name: 'permission', type: 'name'},
+                {name: 'parent', type: 'name'},
+                {name: 'auth', type: 'authority'},
+            ],
+        },
+        {
+            name: 'deleteauth',
+            base: '',
+            fields: [
+                {name: 'account', type: 'name'},
+                {name: 'permission', type: 'name'},
+            ],
+        },
+        {
+            name: 'linkauth',
+            base: '',
+            fields: [
+                {name: 'account', type: 'name'},
+                {name: 'code', type: 'name'},
+                {name: 'type', type: 'name'},
+                {name: 'requirement', type: 'name'},
+            ],
+        },
+        {
+            name: 'unlinkauth',
+            base: '',
+            fields: [
+                {name: 'account', type: 'name'},
+                {name: 'code', type: 'name'},
+                {name: 'type', type: 'name'},
+            ],
+        },
+    ],
+    actions: ['updateauth', 'deleteauth', 'linkauth', 'unlinkauth'].map((name) => ({
+        name,
+        type: name,
+        ricardian_contract: '',
+    })),
+})
+
+interface MockChainOptions {
+    /** Collects the transactions that were broadcast */
+    sent?: Transaction[]
+    /** Reject broadcasts with this error message */
+    broadcastError?: string
+    /** The permissions returned by get_account */
+    permissions?: any[]
+    /** Collects the transactions checked with get_required_keys */
+    checked?: any[]
+    /** Reject get_required_keys with this chain error */
+    requiredKeysError?: {code: number; name: string; message: string}
+    /** The ABIs returned by get_raw_abi, null for unknown accounts */
+    abis?: Record<string, ABI | null>
+}
+
+/**
+ * Wraps mockFetch, capturing broadcast transactions instead of sending them
+ * and answering get_account and get_required_keys.
+ */
+function mockChainFetch(options: MockChainOptions = {}) {
+    return async (path: string, params?: any) => {
+        if (path.endsWith('/v1/chain/send_transaction')) {
+            const transaction = PackedTransaction.from(JSON.parse(params.body)).getTransaction()
+            if (options.sent) {
+                options.sent.push(transaction)
+            }
+            if (options.broadcastError) {
+                const error = {name: 'tx_error', details: [{message: options.broadcastError}]}
+                return new Response(JSON.stringify({code: 500, error}), {status: 500})
+            }
+            return new Response(JSON.stringify({transaction_id: String(transaction.id)}))
+        }
+        if (path.endsWith('/v1/chain/get_account')) {
+            return new Response(JSON.stringify(mockAccount(options.permissions || [])))
+        }
+        if (path.endsWith('/v1/chain/get_required_keys')) {
+            if (options.checked) {
+                options.checked.push(JSON.parse(params.body).transaction)
+            }
+            if (options.requiredKeysError) {
+                const {code, name, message} = options.requiredKeysError
+                const error = {code, name, what: message, details: [{message}]}
+                return new Response(JSON.stringify({code: 500, message, error}), {status: 500})
+            }
+            const {available_keys} = JSON.parse(params.body)
+            return new Response(JSON.stringify({required_keys: available_keys}))
+        }
+        if (path.endsWith('/v1/chain/get_raw_abi') && options.abis) {
+            const {account_name} = JSON.parse(params.body)
+            const abi = options.abis[account_name]
+            if (abi === null) {
+                const message = `unknown key (eosio::chain::name): ${account_name}`
+                const error = {code: 3060002, name: 'account_query_exception', what: message}
+                return new Response(JSON.stringify({code: 500, message, error}), {status: 500})
+            }
+            if (abi) {
+                const hash = '0'.repeat(64)
+                const encoded = Buffer.from(Serializer.encode({object: abi}).array)
+                return new Response(
+                    JSON.stringify({
+                        account_name,
+                        code_hash: hash,
+                        abi_hash: hash,
+                        abi: encoded.toString('base64'),
+                    })
+                )
+            }
+        }
+        return mockFetch(path, params)
+    }
+}
+
+/**
+ * The private key of the local permission in the tests
+ */
+const testKey = 'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
+
+/**
+ * A transfer authorized with the local permission of the tests
+ */
+const transfer = {
+    action: {
+        authorization: [{actor: 'wharfkit1131', permission: 'test'}],
+        account: 'eosio.token',
+        name: 'transfer',
+        data: {
+            from: 'wharfkit1131',
+            to: 'wharfkittest',
+            quantity: '0.0001 EOS',
+            memo: 'test',
+        },
+    },
+}
+
+/**
+ * Create a session for the mock account answered by mockChainFetch
+ */
+function createSession(
+    plugin?: TransactPluginLocalSigning,
+    options: MockChainOptions = {},
+    sessionOptions: SessionOptions = {}
+) {
+    return new Session(mockSessionArgs, {
+        abis: [{account: 'eosio', abi: eosioAuthAbi}],
+        fetch: mockChainFetch(options),
+        storage: new MockStorage(),
+        ...(plugin ? {transactPlugins: [plugin]} : {}),
+        ...sessionOptions,
+    })
+}
+
+/**
+ * Create a plugin signing eosio.token transfers, storing keys without encryption
+ */
+function createPlugin(options: Partial<TransactPluginLocalSigningOptions> = {}) {
+    return new TransactPluginLocalSigning({
+        actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+        keyProtection: new Base64KeyProtection(),
+        ...options,
+    })
+}
+
+/**
+ * A get_account response for the mock session's account
+ */
+function mockAccount(permissions: any[]) {
+    const limit = {used: 0, available: 0, max: 0}
+    return {
+        account_name: 'wharfkit1131',
+        head_block_num: 1,
+        head_block_time: '2023-01-01T00:00:00.000',
+        privileged: false,
+        last_code_update: '1970-01-01T00:00:00.000',
+        created: '2023-01-01T00:00:00.000',
+        ram_quota: 0,
+        net_weight: 0,
+        cpu_weight: 0,
+        net_limit: limit,
+        cpu_limit: limit,
+        ram_usage: 0,
+        permissions,
+    }
+}
+
+/**
+ * A permission as returned by get_account
+ */
+function mockPermission(name: string, key: string, linkedActions: string[][] = []) {
+    return {
+        perm_name: name,
+        parent: 'active',
+        required_auth: {threshold: 1, keys: [{key, weight: 1}], accounts: [], waits: []},
+        linked_actions: linkedActions.map(([account, action]) => ({account, action})),
+    }
+}
+
+/**
+ * A user interface that answers prompts with the given responses
+ */
+class MockPromptUserInterface extends MockUserInterface {
+    prompts: PromptArgs[] = []
+    statuses: string[] = []
+
+    /**
+     * @param response The response to every prompt, or one response per prompt in order
+     */
+    constructor(private response: PromptResponse | PromptResponse[] = {approved: true}) {
+        super()
+    }
+
+    prompt(args: PromptArgs): Cancelable<PromptResponse> {
+        this.prompts.push(args)
+        const response = Array.isArray(this.response) ? this.response.shift() : this.response
+        return cancelable(Promise.resolve(response || {approved: false}))
+    }
+
+    status(message: string): void {
+        this.statuses.push(message)
+    }
+
+    translate(key: string, options?: UserInterfaceTranslateOptions): string {
+        return options ? options.default : key
+    }
+}
+
+/**
+ * Run the afterLogin hooks of the plugin's login plugin for a session
+ */
+async function runAfterLogin(
+    plugin: TransactPluginLocalSigning,
+    session: Session,
+    ui: UserInterface = new MockPromptUserInterface()
+) {
+    const context = new LoginContext({
+        chain: session.chain,
+        fetch: session.fetch,
+        permissionLevel: session.permissionLevel,
+        ui,
+    })
+    Object.assign(context, {session})
+    plugin.loginPlugin.register(context)
+    for (const hook of context.hooks.afterLogin) {
+        await hook(context)
+    }
+}
+
 suite('TransactPluginLocalSigning', function () {
     suite('constructor', function () {
         test('should create plugin with valid config', function () {
@@ -114,6 +466,511 @@ suite('TransactPluginLocalSigning', function () {
         })
     })
 
+    suite('wildcard actions', function () {
+        test('should match wildcards, prefixes and names', function () {
+            assert.isTrue(matchesAction('*', 'anything'))
+            assert.isTrue(matchesAction(['game*'], 'gameplay'))
+            assert.isFalse(matchesAction(['game*'], 'claim'))
+            assert.isTrue(matchesAction([Name.from('claim')], 'claim'))
+            assert.isFalse(matchesAction([Name.from('claim')], 'claimall'))
+        })
+
+        test('should link every action of the contract for wildcards and prefixes', function () {
+            assert.deepEqual(getLinkedActions('*').map(String), [''])
+            assert.deepEqual(getLinkedActions(['play', 'game*']).map(String), [''])
+            assert.deepEqual(getLinkedActions(['play', 'claim']).map(String), ['play', 'claim'])
+        })
+
+        test('should sign matching actions locally', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['tran*']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(
+                {
+                    action: {
+                        authorization: [{actor: 'wharfkit1131', permission: 'test'}],
+                        account: 'eosio.token',
+                        name: 'transfer',
+                        data: {
+                            from: 'wharfkit1131',
+                            to: 'wharfkittest',
+                            quantity: '0.0001 EOS',
+                            memo: 'test',
+                        },
+                    },
+                },
+                {broadcast: false}
+            )
+
+            assert.lengthOf(result.signatures, 2)
+            const [action] = result.resolved!.transaction.actions
+            assert.equal(String(action.authorization[0]), 'wharfkit1131@eosio.token')
+        })
+
+        test('should set up and revoke a contract-wide link', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: '*'}],
+            })
+            const permissions: any[] = []
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, permissions}),
+                storage: new MockStorage(),
+                ui,
+            })
+
+            await plugin.setup(session, 'gamecontract', {prompt: true})
+            // What the setup transaction added on-chain
+            permissions.push(
+                mockPermission('gamecontract', String(PrivateKey.from(testKey).toPublic()), [
+                    ['gamecontract', ''],
+                ])
+            )
+            await plugin.revoke(session, 'gamecontract')
+
+            assert.include(ui.prompts[0].body, 'All actions')
+            assert.deepEqual(
+                sent.map((transaction) => transaction.actions.map((action) => String(action.name))),
+                [
+                    ['updateauth', 'linkauth'],
+                    ['unlinkauth', 'deleteauth'],
+                ]
+            )
+            assert.equal(String(sent[0].actions[1].decodeData(LinkAuth).type), '')
+            assert.equal(String(sent[1].actions[0].decodeData(UnlinkAuth).type), '')
+        })
+
+        test('should tell the user a prefix authorizes every action', async function () {
+            const ui = new MockPromptUserInterface()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['game*', 'claim']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+                ui,
+            })
+
+            await plugin.setup(session, 'gamecontract', {prompt: true})
+
+            assert.include(ui.prompts[0].body, 'game*, claim')
+            assert.include(ui.prompts[0].body, 'every action of gamecontract')
+            assert.notInclude(ui.prompts[0].body, 'only perform these specific actions')
+        })
+
+        test('should mark contract-wide links in the batch prompt', async function () {
+            const ui = new MockPromptUserInterface()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['game*']},
+                    {contract: 'nftcontract', actions: ['equip']},
+                ],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+            })
+
+            await runAfterLogin(plugin, session, ui)
+
+            assert.include(
+                ui.prompts[0].body,
+                'gamecontract: game* (permission can perform every action)'
+            )
+            assert.include(ui.prompts[0].body, 'nftcontract: equip\n')
+        })
+
+        test('should recognize an existing contract-wide link', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: '*'}],
+            })
+            const permission = mockPermission(
+                'gamecontract',
+                String(PrivateKey.from(testKey).toPublic()),
+                [['gamecontract', '']]
+            )
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({permissions: [permission]}),
+                storage: new MockStorage(),
+            })
+            await plugin.savePrivateKey(session.storage!, mockScope, 'gamecontract', testKey)
+
+            const result = await plugin.verify(session, 'gamecontract')
+
+            assert.equal(result.status, 'ok')
+        })
+    })
+
+    suite('config validation', function () {
+        const gameAbi = ABI.from({
+            version: 'eosio::abi/1.1',
+            structs: [{name: 'empty', base: '', fields: []}],
+            actions: [
+                {name: 'gamestart', type: 'empty', ricardian_contract: 'autosign: yes'},
+                {name: 'gamemove', type: 'empty', ricardian_contract: 'autosign: yes'},
+                {name: 'claim', type: 'empty', ricardian_contract: 'autosign: yes'},
+                {name: 'withdraw', type: 'empty', ricardian_contract: ''},
+            ],
+        })
+
+        test('should report no issues for valid configs', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['game*', 'claim']},
+                    {contract: 'gamecontrac2', actions: '*'},
+                ],
+            })
+            const session = createSession(undefined, {
+                abis: {gamecontract: gameAbi, gamecontrac2: gameAbi},
+            })
+
+            assert.deepEqual(await plugin.validate(session), [])
+        })
+
+        test('should report unknown contracts and actions', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {
+                        contract: 'gamecontract',
+                        actions: ['claim', 'clam', 'play*'],
+                        policies: {withdrw: () => true},
+                        limits: [{action: 'clam', period: 60, maxSignatures: 1}],
+                    },
+                    {contract: 'nftcontract', actions: ['equip']},
+                ],
+            })
+            const session = createSession(undefined, {
+                abis: {gamecontract: gameAbi, nftcontract: null},
+            })
+
+            const issues = await plugin.validate(session)
+
+            assert.deepEqual(
+                issues.map((issue) => [String(issue.contract), issue.action]),
+                [
+                    ['gamecontract', 'clam'],
+                    ['gamecontract', 'play*'],
+                    ['gamecontract', 'withdrw'],
+                    ['gamecontract', 'clam'],
+                    ['nftcontract', undefined],
+                ]
+            )
+            assert.include(issues[0].message, 'clam is not an action of gamecontract')
+            assert.include(issues[4].message, 'no contract')
+        })
+
+        test('should leave invalid contracts out of the login prompt', async function () {
+            const issues: any[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['claim']},
+                    {contract: 'nftcontract', actions: ['equip']},
+                ],
+                validateOnLogin: true,
+                onConfigIssues: (event) => issues.push(...event.issues),
+            })
+            const session = createSession(undefined, {
+                abis: {gamecontract: gameAbi, nftcontract: null},
+            })
+            const ui = new MockPromptUserInterface({approved: false})
+
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.include(ui.prompts[0].body, 'gamecontract')
+            assert.notInclude(ui.prompts[0].body, 'nftcontract')
+            assert.lengthOf(issues, 1)
+            assert.equal(String(issues[0].contract), 'nftcontract')
+        })
+
+        test('should build a config from an ABI', function () {
+            const all = createActionConfigFromAbi('gamecontract', gameAbi)
+            assert.deepEqual(all.actions.map(String), [
+                'gamestart',
+                'gamemove',
+                'claim',
+                'withdraw',
+            ])
+
+            const allowed = createActionConfigFromAbi('gamecontract', gameAbi, {
+                include: ['game*', 'withdraw'],
+                exclude: ['gamemove'],
+            })
+            assert.deepEqual(allowed.actions.map(String), ['gamestart', 'withdraw'])
+
+            const marked = createActionConfigFromAbi('gamecontract', gameAbi, {
+                filter: (action) => action.ricardian_contract.includes('autosign: yes'),
+            })
+            assert.deepEqual(marked.actions.map(String), ['gamestart', 'gamemove', 'claim'])
+            assert.isTrue(marked.contract.equals('gamecontract'))
+        })
+    })
+
+    suite('per-chain configs', function () {
+        const jungle = String(mockScope.chain)
+        const eos = 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906'
+
+        test('should only return the configs for a chain', function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: {
+                    [jungle]: [{contract: 'gamecontract', actions: ['play']}],
+                    [eos]: [{contract: 'eosgame', actions: ['play']}],
+                },
+            })
+            const filtered = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['play']},
+                    {contract: 'eosgame', actions: ['play'], chains: [eos]},
+                ],
+            })
+
+            assert.lengthOf(plugin.getActionConfigs(), 2)
+            assert.deepEqual(
+                plugin.getActionConfigs(jungle).map((c) => String(c.contract)),
+                ['gamecontract']
+            )
+            assert.deepEqual(
+                filtered.getActionConfigs(jungle).map((c) => String(c.contract)),
+                ['gamecontract']
+            )
+            assert.deepEqual(
+                filtered.getActionConfigs(eos).map((c) => String(c.contract)),
+                ['gamecontract', 'eosgame']
+            )
+        })
+
+        test('should only prompt for contracts on the session chain', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: {
+                    [jungle]: [{contract: 'gamecontract', actions: ['play']}],
+                    [eos]: [{contract: 'eosgame', actions: ['play']}],
+                },
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+            })
+            const ui = new MockPromptUserInterface({approved: false})
+
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.include(ui.prompts[0].body, 'gamecontract')
+            assert.notInclude(ui.prompts[0].body, 'eosgame')
+        })
+
+        test('should use the config of the session chain', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: {
+                    [jungle]: [
+                        {contract: 'eosio.token', actions: ['transfer'], permission: 'tokens'},
+                    ],
+                    [eos]: [{contract: 'eosio.token', actions: ['transfer']}],
+                },
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.equal(String(plugin.getPermissionName('eosio.token', eos)), 'eosio.token')
+            assert.lengthOf(result.signatures, 2)
+            const [action] = result.resolved!.transaction.actions
+            assert.equal(String(action.authorization[0]), 'wharfkit1131@tokens')
+        })
+
+        test('should leave actions configured for other chains to the wallet', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer'], chains: [eos]}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(result.signatures, 1)
+            const [action] = result.resolved!.transaction.actions
+            assert.equal(String(action.authorization[0]), 'wharfkit1131@test')
+        })
+
+        test('should only tear down the keys of the session chain', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['play']},
+                    {contract: 'eosgame', actions: ['play'], chains: [eos]},
+                ],
+            })
+            const session = new Session(mockSessionArgs, {fetch: mockChainFetch(), storage})
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+            await plugin.savePrivateKey(storage, mockScope, 'eosgame', testKey)
+
+            await plugin.teardown(session)
+
+            assert.notExists(await plugin.loadLocalKey(storage, mockScope, 'gamecontract'))
+            assert.exists(await plugin.loadLocalKey(storage, mockScope, 'eosgame'))
+        })
+    })
+
+    suite('cross-tab sync', function () {
+        test('should deliver messages to the other instances', function () {
+            const first = new MemorySync()
+            const second = first.connect()
+            const received: LocalSigningSyncMessage[][] = [[], []]
+            first.subscribe((message) => received[0].push(message))
+            const unsubscribe = second.subscribe((message) => received[1].push(message))
+
+            first.post({type: 'teardown', chain: String(mockScope.chain), actor: 'wharfkit1131'})
+            unsubscribe()
+            first.post({type: 'teardown', chain: String(mockScope.chain), actor: 'wharfkit1131'})
+
+            assert.lengthOf(received[0], 0)
+            assert.lengthOf(received[1], 1)
+        })
+
+        test('should run locked tasks one at a time', async function () {
+            const first = new MemorySync()
+            const second = first.connect()
+            const steps: string[] = []
+            const task = (name: string) => async () => {
+                steps.push(`${name} start`)
+                await new Promise((resolve) => setTimeout(resolve, 10))
+                steps.push(`${name} end`)
+            }
+
+            await Promise.all([
+                first.lock('setup', task('first')),
+                second.lock('setup', task('second')),
+            ])
+
+            assert.deepEqual(steps, ['first start', 'first end', 'second start', 'second end'])
+        })
+
+        test('should announce stored and removed keys to other tabs', async function () {
+            const sync = new MemorySync()
+            const events: LocalSigningSyncEvent[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                sync,
+            })
+            new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                sync: sync.connect(),
+                onSync: (event) => events.push(event),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage: new MockStorage(),
+            })
+
+            await plugin.savePrivateKey(session.storage!, mockScope, 'gamecontract', testKey)
+            await plugin.teardown(session)
+
+            assert.deepEqual(
+                events.map((event) => [event.type, event.contract && String(event.contract)]),
+                [
+                    ['saved', 'gamecontract'],
+                    ['deleted', 'gamecontract'],
+                    ['teardown', undefined],
+                ]
+            )
+            assert.isTrue(Name.from(events[0].scope.actor).equals('wharfkit1131'))
+        })
+
+        test('should not announce records upgraded on read', async function () {
+            const sync = new MemorySync()
+            const events: LocalSigningSyncEvent[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                keyProtection: new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()}),
+                sync,
+            })
+            new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                sync: sync.connect(),
+                onSync: (event) => events.push(event),
+            })
+            const storage = new MockStorage()
+            const storageKey = plugin.getStorageKey(mockScope, 'gamecontract')
+            await storage.write(storageKey, Buffer.from(testKey).toString('base64'))
+
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'), testKey)
+
+            assert.equal(decodeKeyEnvelope((await storage.read(storageKey))!).p, 'aes-gcm')
+            assert.lengthOf(events, 0)
+        })
+
+        test('should only set up in one tab at a time', async function () {
+            const sent: Transaction[] = []
+            const storage = new MockStorage()
+            // Tabs share the key store holding the protection key, like IndexedDB
+            const keyProtection = new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()})
+            const sync = new MemorySync()
+            const tabs = [sync, sync.connect()].map((tabSync) => {
+                const plugin = new TransactPluginLocalSigning({
+                    actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                    keyProtection,
+                    sync: tabSync,
+                })
+                const session = new Session(mockSessionArgs, {
+                    fetch: mockChainFetch({sent}),
+                    storage,
+                })
+                return {plugin, session, ui: new MockPromptUserInterface()}
+            })
+
+            const results = await Promise.all(
+                tabs.map(({plugin, session, ui}) =>
+                    plugin.setup(session, 'gamecontract', {prompt: true, ui})
+                )
+            )
+
+            assert.deepEqual(
+                results.map((result) => result.status),
+                ['created', 'existing']
+            )
+            assert.lengthOf(tabs[0].ui.prompts, 1)
+            assert.lengthOf(tabs[1].ui.prompts, 0)
+            assert.lengthOf(sent, 1)
+        })
+
+        test('should not prompt again after another tab declined', async function () {
+            const storage = new MockStorage()
+            const sync = new MemorySync()
+            const tabs = [sync, sync.connect()].map((tabSync) => {
+                const plugin = new TransactPluginLocalSigning({
+                    actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                    sync: tabSync,
+                })
+                const session = new Session(mockSessionArgs, {fetch: mockChainFetch(), storage})
+                return {plugin, session, ui: new MockPromptUserInterface({approved: false})}
+            })
+
+            await Promise.all(
+                tabs.map(({plugin, session, ui}) => runAfterLogin(plugin, session, ui))
+            )
+
+            assert.lengthOf(tabs[0].ui.prompts, 1)
+            assert.lengthOf(tabs[1].ui.prompts, 0)
+        })
+    })
+
     suite('key generation', function () {
         test('should generate valid K1 key pairs', function () {
             const privateKey = PrivateKey.generate('K1')
@@ -153,10 +1010,8 @@ suite('TransactPluginLocalSigning', function () {
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const testKey = 'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
-
-            await plugin.savePrivateKey(storage, 'gamecontract', testKey)
-            const loaded = await plugin.loadPrivateKey(storage, 'gamecontract')
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+            const loaded = await plugin.loadPrivateKey(storage, mockScope, 'gamecontract')
 
             assert.equal(loaded, testKey)
         })
@@ -173,12 +1028,10 @@ suite('TransactPluginLocalSigning', function () {
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const testKey = 'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
-
-            await plugin.savePrivateKey(storage, 'gamecontract', testKey)
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
 
             // Read raw storage value
-            const storageKey = plugin.getStorageKey('gamecontract')
+            const storageKey = plugin.getStorageKey(mockScope, 'gamecontract')
             const rawValue = await storage.read(storageKey)
 
             // Should NOT contain the raw WIF prefix patterns
@@ -200,16 +1053,14 @@ suite('TransactPluginLocalSigning', function () {
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const testKey = 'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
-
-            await plugin.savePrivateKey(storage, 'gamecontract', testKey)
-            await plugin.deletePrivateKey(storage, 'gamecontract')
-            const loaded = await plugin.loadPrivateKey(storage, 'gamecontract')
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+            await plugin.deletePrivateKey(storage, mockScope, 'gamecontract')
+            const loaded = await plugin.loadPrivateKey(storage, mockScope, 'gamecontract')
 
             assert.isUndefined(loaded)
         })
 
-        test('should return undefined for non-existent key', async function () {
+        test('should not share keys between actors or chains', async function () {
             const storage = new MockStorage()
             const options: TransactPluginLocalSigningOptions = {
                 actionConfigs: [
@@ -221,13 +1072,19 @@ suite('TransactPluginLocalSigning', function () {
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const loaded = await plugin.loadPrivateKey(storage, 'nonexistent')
-            assert.isUndefined(loaded)
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            const otherActor = {...mockScope, actor: 'wharfkit1115'}
+            const otherChain = {
+                ...mockScope,
+                chain: 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906',
+            }
+            assert.isUndefined(await plugin.loadPrivateKey(storage, otherActor, 'gamecontract'))
+            assert.isUndefined(await plugin.loadPrivateKey(storage, otherChain, 'gamecontract'))
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'), testKey)
         })
-    })
 
-    suite('isSetup', function () {
-        test('should return false when no key exists', async function () {
+        test('should migrate keys stored under the legacy key name', async function () {
             const storage = new MockStorage()
             const options: TransactPluginLocalSigningOptions = {
                 actionConfigs: [
@@ -239,50 +1096,91 @@ suite('TransactPluginLocalSigning', function () {
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const mockSessionOptions: SessionOptions = {
-                fetch: mockFetch,
+            const publicKey = String(PrivateKey.from(testKey).toPublic())
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({permissions: [mockPermission('gamecontract', publicKey)]}),
                 storage,
-                transactPlugins: [plugin],
-            }
-            const session = new Session(mockSessionArgs, mockSessionOptions)
+            })
+            await storage.write(
+                'localsession-gamecontract',
+                Buffer.from(testKey).toString('base64')
+            )
 
-            const result = await plugin.isSetup(session, 'gamecontract')
-            assert.isFalse(result)
+            assert.isTrue(await plugin.isSetup(session, 'gamecontract'))
+            const loaded = await plugin.loadPrivateKey(storage, mockScope, 'gamecontract')
+            assert.equal(loaded, testKey)
+
+            // Moved to the scoped key and removed from the legacy key
+            assert.notExists(await storage.read('localsession-gamecontract'))
+            assert.exists(await storage.read(plugin.getStorageKey(mockScope, 'gamecontract')))
         })
 
-        test('should return true when key exists (key exists = permission set up)', async function () {
+        test('should leave legacy keys the account does not trust in place', async function () {
             const storage = new MockStorage()
-            const options: TransactPluginLocalSigningOptions = {
-                actionConfigs: [
-                    {
-                        contract: 'gamecontract',
-                        actions: ['play'],
-                    },
-                ],
-            }
-            const plugin = new TransactPluginLocalSigning(options)
-
-            const mockSessionOptions: SessionOptions = {
-                fetch: mockFetch,
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const otherKey = String(PrivateKey.generate('K1').toPublic())
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({permissions: [mockPermission('gamecontract', otherKey)]}),
                 storage,
-                transactPlugins: [plugin],
-            }
-            const session = new Session(mockSessionArgs, mockSessionOptions)
+            })
+            await storage.write(
+                'localsession-gamecontract',
+                Buffer.from(testKey).toString('base64')
+            )
 
-            // Save a key
-            await plugin.savePrivateKey(
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+            assert.isUndefined(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'))
+            assert.exists(await storage.read('localsession-gamecontract'))
+        })
+
+        test('should not check a rejected legacy key again', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const otherKey = String(PrivateKey.generate('K1').toPublic())
+            const chainFetch = mockChainFetch({
+                permissions: [mockPermission('gamecontract', otherKey)],
+            })
+            let accountRequests = 0
+            const session = new Session(mockSessionArgs, {
+                fetch: async (path: string, params?: any) => {
+                    if (path.endsWith('/v1/chain/get_account')) {
+                        accountRequests++
+                    }
+                    return chainFetch(path, params)
+                },
                 storage,
-                'gamecontract',
-                'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
+            })
+            await storage.write(
+                'localsession-gamecontract',
+                Buffer.from(testKey).toString('base64')
             )
 
-            const result = await plugin.isSetup(session, 'gamecontract')
-            assert.isTrue(result)
+            await plugin.isSetup(session, 'gamecontract')
+            await plugin.isSetup(session, 'gamecontract')
+
+            assert.equal(accountRequests, 1)
         })
-    })
 
-    suite('teardown', function () {
-        test('should delete all stored keys', async function () {
+        test('should keep legacy keys when another account tears down', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const session = new Session(mockSessionArgs, {fetch: mockChainFetch(), storage})
+            await storage.write('localsession-gamecontract', 'legacy')
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.teardown(session)
+
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+            assert.exists(await storage.read('localsession-gamecontract'))
+        })
+
+        test('should return undefined for non-existent key', async function () {
             const storage = new MockStorage()
             const options: TransactPluginLocalSigningOptions = {
                 actionConfigs: [
@@ -290,43 +1188,2195 @@ suite('TransactPluginLocalSigning', function () {
                         contract: 'gamecontract',
                         actions: ['play'],
                     },
-                    {
-                        contract: 'othercontrc', // EOSIO names max 12 chars
-                        actions: ['action1'],
-                    },
                 ],
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const mockSessionOptions: SessionOptions = {
-                fetch: mockFetch,
-                storage,
-                transactPlugins: [plugin],
+            const loaded = await plugin.loadPrivateKey(storage, mockScope, 'nonexistent')
+            assert.isUndefined(loaded)
+        })
+    })
+
+    suite('key protection', function () {
+        test('should store keys in a versioned envelope', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                keyProtection: new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()}),
+            })
+
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+            const rawValue = await storage.read(plugin.getStorageKey(mockScope, 'gamecontract'))
+            const envelope = decodeKeyEnvelope(rawValue!)
+
+            assert.equal(envelope.v, 1)
+            assert.equal(envelope.p, 'aes-gcm')
+            assert.notInclude(rawValue!, testKey)
+            assert.notInclude(rawValue!, Buffer.from(testKey).toString('base64'))
+        })
+
+        test('should encrypt with AES-GCM using the wrapping key', async function () {
+            const protection = new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()})
+            const first = await protection.protect(testKey)
+            const second = await protection.protect(testKey)
+
+            // Random salt and IV per record
+            assert.notEqual(first, second)
+            assert.equal(await protection.unprotect(first), testKey)
+            assert.equal(await protection.unprotect(second), testKey)
+        })
+
+        test('should not decrypt without the same wrapping key', async function () {
+            const protection = new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()})
+            const other = new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()})
+            const payload = await protection.protect(testKey)
+
+            try {
+                await other.unprotect(payload)
+                assert.fail('Expected decryption to fail')
+            } catch (error) {
+                assert.notEqual((error as Error).message, 'Expected decryption to fail')
             }
-            const session = new Session(mockSessionArgs, mockSessionOptions)
+        })
 
-            // Save keys for both contracts
+        test('should encrypt with an app-supplied passphrase', async function () {
+            const storage = new MockStorage()
+            const options = {
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            }
+            const plugin = new TransactPluginLocalSigning({
+                ...options,
+                keyProtection: new AESGCMKeyProtection({passphrase: 'hunter2', iterations: 1000}),
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            const samePassphrase = new TransactPluginLocalSigning({
+                ...options,
+                keyProtection: new AESGCMKeyProtection({
+                    passphrase: async () => 'hunter2',
+                    iterations: 1000,
+                }),
+            })
+            assert.equal(
+                await samePassphrase.loadPrivateKey(storage, mockScope, 'gamecontract'),
+                testKey
+            )
+
+            const wrongPassphrase = new TransactPluginLocalSigning({
+                ...options,
+                keyProtection: new AESGCMKeyProtection({passphrase: 'wrong', iterations: 1000}),
+            })
+            assert.isUndefined(
+                await wrongPassphrase.loadPrivateKey(storage, mockScope, 'gamecontract')
+            )
+        })
+
+        test('should encrypt with an app-supplied key derivation callback', async function () {
+            const secret = await crypto.subtle.generateKey({name: 'AES-GCM', length: 256}, false, [
+                'encrypt',
+                'decrypt',
+            ])
+            const salts: Uint8Array[] = []
+            const protection = new AESGCMKeyProtection({
+                deriveKey: async (salt) => {
+                    salts.push(salt)
+                    return secret
+                },
+            })
+
+            const payload = await protection.protect(testKey)
+            assert.equal(await protection.unprotect(payload), testKey)
+            assert.lengthOf(salts, 2)
+            assert.deepEqual(salts[0], salts[1])
+        })
+
+        test('should not default to AES-GCM without a persistent key store', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            const stored = await storage.read(plugin.getStorageKey(mockScope, 'gamecontract'))
+            assert.equal(decodeKeyEnvelope(stored!).p, Base64KeyProtection.id)
+            // Another instance, e.g. after a restart, can still read the key
+            const restarted = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            assert.equal(
+                await restarted.loadPrivateKey(storage, mockScope, 'gamecontract'),
+                testKey
+            )
+        })
+
+        test('should require a key store or secret for AES-GCM outside the browser', async function () {
+            let error: Error | undefined
+            try {
+                await new AESGCMKeyProtection().protect(testKey)
+            } catch (e) {
+                error = e as Error
+            }
+            assert.instanceOf(error, Error)
+            assert.include(error!.message, 'keyStore')
+        })
+
+        test('should read and upgrade legacy base64 records', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                keyProtection: new AESGCMKeyProtection({keyStore: new MemoryCryptoKeyStore()}),
+            })
+            const storageKey = plugin.getStorageKey(mockScope, 'gamecontract')
+            await storage.write(storageKey, Buffer.from(testKey).toString('base64'))
+
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'), testKey)
+
+            const upgraded = decodeKeyEnvelope((await storage.read(storageKey))!)
+            assert.equal(upgraded.v, 1)
+            assert.equal(upgraded.p, 'aes-gcm')
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'), testKey)
+        })
+
+        test('should fall back to base64 obfuscation when configured', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                keyProtection: new Base64KeyProtection(),
+            })
+
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+            const rawValue = await storage.read(plugin.getStorageKey(mockScope, 'gamecontract'))
+            const envelope = decodeKeyEnvelope(rawValue!)
+
+            assert.equal(envelope.p, 'base64')
+            assert.equal(envelope.d, Buffer.from(testKey).toString('base64'))
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'), testKey)
+        })
+    })
+
+    suite('webcrypto key mode', function () {
+        test('should generate a non-extractable R1 key', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                keyMode: 'webcrypto',
+                cryptoKeyStore: new MemoryCryptoKeyStore(),
+            })
+
+            const localKey = await plugin.createLocalKey()
+            assert.instanceOf(localKey, WebCryptoLocalKey)
+            assert.isFalse((localKey as WebCryptoLocalKey).privateKey.extractable)
+            assert.isTrue(String(localKey.toPublic()).startsWith('PUB_R1_'))
+        })
+
+        test('should produce low-S R1 signatures that recover to the public key', async function () {
+            const localKey = await WebCryptoLocalKey.generate()
+            const message = Buffer.from('local signing test')
+
+            for (let i = 0; i < 5; i++) {
+                const signature = await localKey.signMessage(message)
+                assert.isTrue(String(signature).startsWith('SIG_R1_'))
+                assert.isTrue(signature.recoverMessage(message).equals(localKey.publicKey))
+                assert.isTrue(signature.data.array[33] < 0x80)
+            }
+        })
+
+        test('should persist the key without storing private key material', async function () {
+            const storage = new MockStorage()
+            const cryptoKeyStore = new MemoryCryptoKeyStore()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+                keyMode: 'webcrypto',
+                cryptoKeyStore,
+            })
+            const session = new Session(mockSessionArgs, {fetch: mockFetch, storage})
+
+            const localKey = await plugin.createLocalKey()
+            await plugin.saveLocalKey(storage, mockScope, 'gamecontract', localKey)
+
+            const rawValue = await storage.read(plugin.getStorageKey(mockScope, 'gamecontract'))
+            assert.equal(decodeKeyEnvelope(rawValue!).d, String(localKey.toPublic()))
+            assert.isTrue(await plugin.isSetup(session, 'gamecontract'))
+            assert.isUndefined(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'))
+
+            const loaded = await plugin.loadLocalKey(storage, mockScope, 'gamecontract')
+            assert.instanceOf(loaded, WebCryptoLocalKey)
+            assert.isTrue(loaded!.toPublic().equals(localKey.toPublic()))
+
+            await plugin.deletePrivateKey(storage, mockScope, 'gamecontract')
+            assert.isUndefined(
+                await cryptoKeyStore.get(plugin.getStorageKey(mockScope, 'gamecontract'))
+            )
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+        })
+
+        test('should sign matching transactions with the R1 key', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                keyMode: 'webcrypto',
+                cryptoKeyStore: new MemoryCryptoKeyStore(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockFetch,
+                storage,
+                transactPlugins: [plugin],
+            })
+
+            const localKey = await plugin.createLocalKey()
+            await plugin.saveLocalKey(storage, mockScope, 'eosio.token', localKey)
+
+            const result = await session.transact(
+                {
+                    action: {
+                        authorization: [{actor: 'wharfkit1131', permission: 'eosio.token'}],
+                        account: 'eosio.token',
+                        name: 'transfer',
+                        data: {
+                            from: 'wharfkit1131',
+                            to: 'wharfkittest',
+                            quantity: '0.0001 EOS',
+                            memo: 'test',
+                        },
+                    },
+                },
+                {broadcast: false}
+            )
+
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            const signature = result.signatures.find((sig) => sig.type === 'R1')
+            assert.isDefined(signature)
+            assert.isTrue(signature!.verifyDigest(digest, localKey.toPublic()))
+        })
+    })
+
+    suite('revoke', function () {
+        const publicKey = String(PrivateKey.from(testKey).toPublic())
+
+        test('should create unlinkauth and deleteauth actions', function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play', 'claim']}],
+            })
+
+            const unlinkAuthActions = plugin.createUnlinkAuthActions(
+                'wharfkit1131',
+                'gamecontract',
+                ['play', 'claim']
+            )
+            assert.lengthOf(unlinkAuthActions, 2)
+            assert.isTrue(unlinkAuthActions[0].name.equals('unlinkauth'))
+            assert.isTrue(unlinkAuthActions[0].authorization[0].permission.equals('active'))
+
+            const deleteAuthAction = plugin.createDeleteAuthAction('wharfkit1131', 'gamecontract')
+            assert.isTrue(deleteAuthAction.account.equals('eosio'))
+            assert.isTrue(deleteAuthAction.name.equals('deleteauth'))
+        })
+
+        test('should remove the permission in one transaction and then delete the key', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play', 'claim']}],
+            })
+            const permission = mockPermission('gamecontract', publicKey, [
+                ['gamecontract', 'play'],
+                ['gamecontract', 'claim'],
+            ])
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, permissions: [permission]}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.revoke(session, 'gamecontract')
+
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['unlinkauth', 'unlinkauth', 'deleteauth']
+            )
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+        })
+
+        test('should only unlink the actions that are linked', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play', 'claim']}],
+            })
+            const permission = mockPermission('gamecontract', publicKey, [
+                ['gamecontract', 'claim'],
+            ])
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, permissions: [permission]}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.revoke(session, 'gamecontract')
+
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['unlinkauth', 'deleteauth']
+            )
+            assert.equal(String(sent[0].actions[0].decodeData(UnlinkAuth).type), 'claim')
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+        })
+
+        test('should unlink every link of the permission', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const permission = mockPermission('gamecontract', publicKey, [
+                ['gamecontract', 'play'],
+                ['gamecontract', 'oldaction'],
+                ['othercontrc', 'action1'],
+            ])
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, permissions: [permission]}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.revoke(session, 'gamecontract')
+
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['unlinkauth', 'unlinkauth', 'unlinkauth', 'deleteauth']
+            )
+            assert.deepEqual(
+                sent[0].actions.slice(0, 3).map((action) => {
+                    const data = action.decodeData(UnlinkAuth)
+                    return `${data.code}::${data.type}`
+                }),
+                ['gamecontract::play', 'gamecontract::oldaction', 'othercontrc::action1']
+            )
+        })
+
+        test('should only delete the key when the permission is already gone', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.revoke(session, 'gamecontract')
+
+            assert.lengthOf(sent, 0)
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+        })
+
+        test('should unlink every action when the account cannot be fetched', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play', 'claim']}],
+            })
+            const chainFetch = mockChainFetch({sent})
+            const session = new Session(mockSessionArgs, {
+                fetch: async (path: string, params?: any) =>
+                    path.endsWith('/v1/chain/get_account')
+                        ? new Response('{}', {status: 500})
+                        : chainFetch(path, params),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.revoke(session, 'gamecontract')
+
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['unlinkauth', 'unlinkauth', 'deleteauth']
+            )
+        })
+
+        test('should keep the key when the revoke fails', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({
+                    sent,
+                    permissions: [
+                        mockPermission('gamecontract', publicKey, [['gamecontract', 'play']]),
+                    ],
+                    broadcastError: 'missing authority of wharfkit1131/active',
+                }),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            try {
+                await plugin.revoke(session, 'gamecontract')
+                assert.fail('Expected revoke to fail')
+            } catch (error) {
+                assert.include((error as Error).message, 'missing authority')
+            }
+            assert.isTrue(await plugin.isSetup(session, 'gamecontract'))
+        })
+
+        test('should revoke on logout when enabled', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['play']},
+                    {contract: 'othercontrc', actions: ['action1']},
+                ],
+                revokeOnLogout: true,
+            })
+            const permission = mockPermission('gamecontract', publicKey, [['gamecontract', 'play']])
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, permissions: [permission]}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            await plugin.loginPlugin.onLogout(session)
+
+            // Only the contract that was set up is revoked
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['unlinkauth', 'deleteauth']
+            )
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+        })
+    })
+
+    suite('verify', function () {
+        const testPublicKey = String(PrivateKey.from(testKey).toPublic())
+        const otherPublicKey = String(PrivateKey.generate('K1').toPublic())
+
+        async function verifyWith(permissions: any[], withKey = true) {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play', 'claim']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({permissions}),
+                storage,
+            })
+            if (withKey) {
+                await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+            }
+            return plugin.verify(session, 'gamecontract')
+        }
+
+        test('should report ok when permission, key and links match', async function () {
+            const result = await verifyWith([
+                mockPermission('gamecontract', testPublicKey, [
+                    ['gamecontract', 'play'],
+                    ['gamecontract', 'claim'],
+                ]),
+            ])
+            assert.equal(result.status, 'ok')
+            assert.isTrue(result.permission.equals('gamecontract'))
+            assert.lengthOf(result.unlinkedActions, 0)
+        })
+
+        test('should report missing when the permission does not exist', async function () {
+            const result = await verifyWith([mockPermission('active', otherPublicKey)])
+            assert.equal(result.status, 'missing')
+            assert.lengthOf(result.unlinkedActions, 2)
+        })
+
+        test('should report key-mismatch when the permission holds another key', async function () {
+            const result = await verifyWith([
+                mockPermission('gamecontract', otherPublicKey, [['gamecontract', 'play']]),
+            ])
+            assert.equal(result.status, 'key-mismatch')
+            assert.deepEqual(result.unlinkedActions.map(String), ['claim'])
+        })
+
+        test('should report partially-linked when actions are not linked', async function () {
+            const result = await verifyWith([
+                mockPermission('gamecontract', testPublicKey, [['gamecontract', 'play']]),
+            ])
+            assert.equal(result.status, 'partially-linked')
+            assert.deepEqual(result.unlinkedActions.map(String), ['claim'])
+        })
+
+        test('should report no-key when nothing is stored', async function () {
+            const result = await verifyWith(
+                [mockPermission('gamecontract', testPublicKey, [['gamecontract', 'play']])],
+                false
+            )
+            assert.equal(result.status, 'no-key')
+        })
+
+        test('should discard a stale key at login and offer setup again', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, permissions: []}),
+                storage,
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            const ui = new MockPromptUserInterface({approved: true})
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['updateauth', 'linkauth']
+            )
+            const newKey = await plugin.loadPrivateKey(storage, mockScope, 'gamecontract')
+            assert.isDefined(newKey)
+            assert.notEqual(newKey, testKey)
+        })
+
+        test('should re-create missing links at login without prompting', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play', 'claim']}],
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({
+                    sent,
+                    permissions: [
+                        mockPermission('gamecontract', testPublicKey, [['gamecontract', 'play']]),
+                    ],
+                }),
+                storage,
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+
+            const ui = new MockPromptUserInterface()
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 0)
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['linkauth']
+            )
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'), testKey)
+        })
+    })
+
+    suite('wallet fallback', function () {
+        const unsatisfied = {
+            code: 3090003,
+            name: 'unsatisfied_authorization',
+            message:
+                'Provided keys, permissions, and delays do not satisfy declared authorizations',
+        }
+        const transfer = {
+            action: {
+                authorization: [{actor: 'wharfkit1131', permission: 'eosio.token'}],
+                account: 'eosio.token',
+                name: 'transfer',
+                data: {
+                    from: 'wharfkit1131',
+                    to: 'wharfkittest',
+                    quantity: '0.0001 EOS',
+                    memo: 'test',
+                },
+            },
+        }
+
+        test('should detect authorization errors', function () {
+            assert.isTrue(isAuthorizationError({code: 3090003, message: ''}))
+            assert.isTrue(
+                isAuthorizationError(new Error('missing authority of wharfkit1131/eosio.token'))
+            )
+            assert.isFalse(isAuthorizationError(new Error('Failed to fetch')))
+            assert.isFalse(isAuthorizationError(undefined))
+        })
+
+        test('should sign locally when the chain accepts the key', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin()
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            assert.isTrue(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+        })
+
+        test('should fall back to the wallet when the key is rejected', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin()
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({requiredKeysError: unsatisfied}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            const transaction = result.resolved!.transaction
+            assert.equal(String(transaction.actions[0].authorization[0]), 'wharfkit1131@test')
+            const digest = transaction.signingDigest(session.chain.id)
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            assert.isFalse(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+            assert.isFalse(await plugin.isSetup(session, 'eosio.token'))
+        })
+
+        test('should fall back to the wallet when the action is no longer linked', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin()
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            const permission = mockPermission('eosio.token', String(publicKey), [
+                ['eosio.token', 'open'],
+            ])
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({permissions: [permission]}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            const transaction = result.resolved!.transaction
+            assert.equal(String(transaction.actions[0].authorization[0]), 'wharfkit1131@test')
+            const digest = transaction.signingDigest(session.chain.id)
+            assert.isFalse(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+            assert.isFalse(await plugin.isSetup(session, 'eosio.token'))
+        })
+
+        test('should sign locally when the action is linked', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin()
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            const permission = mockPermission('eosio.token', String(publicKey), [
+                ['eosio.token', 'transfer'],
+            ])
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({permissions: [permission]}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            assert.isTrue(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+        })
+
+        test('should sign locally when the check fails for other reasons', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin()
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({
+                    requiredKeysError: {code: 0, name: 'exception', message: 'Server busy'},
+                }),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            assert.isTrue(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+            assert.isTrue(await plugin.isSetup(session, 'eosio.token'))
+        })
+
+        test('should not check the key when disabled', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin({fallbackToWallet: false})
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({requiredKeysError: unsatisfied}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            assert.isTrue(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+        })
+
+        test('should offer to set up again as part of the wallet transaction', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface()
+            const plugin = createPlugin({offerSetupOnFallback: true})
+            const session = new Session(mockSessionArgs, {
+                abis: [{account: 'eosio', abi: eosioAuthAbi}],
+                fetch: mockChainFetch({sent, requiredKeysError: unsatisfied}),
+                storage,
+                transactPlugins: [plugin],
+                ui,
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            await session.transact(transfer)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['transfer', 'updateauth', 'linkauth']
+            )
+            const localKey = await plugin.loadPrivateKey(storage, mockScope, 'eosio.token')
+            assert.exists(localKey)
+            assert.notEqual(String(localKey), testKey)
+        })
+
+        test('should leave the request alone when the offer is declined', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface({approved: false})
+            const plugin = createPlugin({offerSetupOnFallback: true})
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent, requiredKeysError: unsatisfied}),
+                storage,
+                transactPlugins: [plugin],
+                ui,
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            await session.transact(transfer)
+
+            assert.lengthOf(sent, 1)
+            assert.lengthOf(sent[0].actions, 1)
+            assert.isFalse(await plugin.isSetup(session, 'eosio.token'))
+        })
+    })
+
+    suite('authorization rewriting', function () {
+        function transferAs(permission: string) {
+            return {
+                action: {
+                    authorization: [{actor: 'wharfkit1131', permission}],
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    data: {
+                        from: 'wharfkit1131',
+                        to: 'wharfkittest',
+                        quantity: '0.0001 EOS',
+                        memo: 'test',
+                    },
+                },
+            }
+        }
+
+        test('should authorize matching actions with the local permission', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = createSession(plugin, {}, {storage})
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transferAs('active'), {broadcast: false})
+
+            const transaction = result.resolved!.transaction
+            assert.deepEqual(transaction.actions[0].authorization.map(String), [
+                'wharfkit1131@eosio.token',
+            ])
+            const digest = transaction.signingDigest(session.chain.id)
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            assert.isTrue(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+        })
+
+        test('should leave authorizations untouched without a local key', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+            })
+            const session = createSession(plugin, {}, {storage})
+
+            const result = await session.transact(transferAs('active'), {broadcast: false})
+
+            assert.deepEqual(result.resolved!.transaction.actions[0].authorization.map(String), [
+                'wharfkit1131@active',
+            ])
+        })
+
+        test('should keep the original authorizations when falling back', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({
+                    requiredKeysError: {
+                        code: 3090003,
+                        name: 'unsatisfied_authorization',
+                        message: 'Provided keys do not satisfy declared authorizations',
+                    },
+                }),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transferAs('active'), {broadcast: false})
+
+            assert.deepEqual(result.resolved!.transaction.actions[0].authorization.map(String), [
+                'wharfkit1131@active',
+            ])
+        })
+    })
+
+    suite('mixed transactions', function () {
+        const mixed = {
+            actions: [
+                {
+                    authorization: [{actor: 'wharfkit1131', permission: 'test'}],
+                    account: 'eosio.token',
+                    name: 'open',
+                    data: {
+                        owner: 'wharfkit1131',
+                        symbol: '4,EOS',
+                        ram_payer: 'wharfkit1131',
+                    },
+                },
+                {
+                    authorization: [{actor: 'wharfkit1131', permission: 'test'}],
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    data: {
+                        from: 'wharfkit1131',
+                        to: 'wharfkittest',
+                        quantity: '0.0001 EOS',
+                        memo: 'test',
+                    },
+                },
+            ],
+        }
+
+        test('should co-sign local actions alongside the wallet', async function () {
+            const storage = new MockStorage()
+            const checked: any[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['open']}],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({checked}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(mixed, {broadcast: false})
+
+            const transaction = result.resolved!.transaction
+            assert.deepEqual(
+                transaction.actions.map((action) => action.authorization.map(String)),
+                [['wharfkit1131@eosio.token'], ['wharfkit1131@test']]
+            )
+
+            // Only the local actions are checked against the local key
+            assert.lengthOf(checked, 1)
+            assert.lengthOf(checked[0].actions, 1)
+            assert.equal(checked[0].actions[0].name, 'open')
+
+            // Both the local key and the wallet signed
+            const digest = transaction.signingDigest(session.chain.id)
+            const localPublicKey = PrivateKey.from(testKey).toPublic()
+            const walletPublicKey = PrivateKey.from(
+                '5Jtoxgny5tT7NiNFp1MLogviuPJ9NniWjnU4wKzaX4t7pL4kJ8s'
+            ).toPublic()
+            assert.lengthOf(result.signatures, 2)
+            assert.isTrue(result.signatures[0].verifyDigest(digest, localPublicKey))
+            assert.isTrue(result.signatures[1].verifyDigest(digest, walletPublicKey))
+        })
+
+        test('should leave transactions without local actions to the wallet', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['close']}],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(mixed, {broadcast: false})
+
+            assert.lengthOf(result.signatures, 1)
+            assert.deepEqual(
+                result.resolved!.transaction.actions.map((action) =>
+                    action.authorization.map(String)
+                ),
+                [['wharfkit1131@test'], ['wharfkit1131@test']]
+            )
+        })
+    })
+
+    suite('multiple contracts', function () {
+        const actionConfigs = [
+            {contract: 'eosio.token', actions: ['transfer']},
+            {contract: 'gamecontract', actions: ['play']},
+        ]
+        const gameKey = String(PrivateKey.generate('K1'))
+        const gameAbi = ABI.from({
+            version: 'eosio::abi/1.1',
+            types: [],
+            structs: [{name: 'play', base: '', fields: [{name: 'player', type: 'name'}]}],
+            actions: [{name: 'play', type: 'play', ricardian_contract: ''}],
+        })
+        const sessionOptions = {abis: [{account: 'gamecontract', abi: gameAbi}]}
+        const transaction = {
+            actions: [
+                {
+                    authorization: [{actor: 'wharfkit1131', permission: 'test'}],
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    data: {
+                        from: 'wharfkit1131',
+                        to: 'wharfkittest',
+                        quantity: '0.0001 EOS',
+                        memo: 'test',
+                    },
+                },
+                {
+                    authorization: [{actor: 'wharfkit1131', permission: 'test'}],
+                    account: 'gamecontract',
+                    name: 'play',
+                    data: {player: 'wharfkit1131'},
+                },
+            ],
+        }
+
+        test('should sign with the key of every contract', async function () {
+            const checked: any[] = []
+            const plugin = createPlugin({actionConfigs})
+            const session = createSession(plugin, {checked}, sessionOptions)
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+            await plugin.savePrivateKey(session.storage!, mockScope, 'gamecontract', gameKey)
+
+            const result = await session.transact(transaction, {broadcast: false})
+
+            const resolved = result.resolved!.transaction
+            assert.deepEqual(
+                resolved.actions.map((action) => action.authorization.map(String)),
+                [['wharfkit1131@eosio.token'], ['wharfkit1131@gamecontract']]
+            )
+            assert.lengthOf(checked, 2)
+            const digest = resolved.signingDigest(session.chain.id)
+            for (const key of [testKey, gameKey]) {
+                const publicKey = PrivateKey.from(key).toPublic()
+                assert.isTrue(result.signatures.some((sig) => sig.verifyDigest(digest, publicKey)))
+            }
+        })
+
+        test('should leave the transaction to the wallet when a key is missing', async function () {
+            const plugin = createPlugin({actionConfigs})
+            const session = createSession(plugin, {}, sessionOptions)
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transaction, {broadcast: false})
+
+            assert.lengthOf(result.signatures, 1)
+            assert.deepEqual(
+                result.resolved!.transaction.actions.map((action) =>
+                    action.authorization.map(String)
+                ),
+                [['wharfkit1131@test'], ['wharfkit1131@test']]
+            )
+        })
+
+        test('should fall back to the wallet when any key is rejected', async function () {
+            const plugin = createPlugin({actionConfigs})
+            const session = createSession(
+                plugin,
+                {
+                    requiredKeysError: {
+                        code: 3090003,
+                        name: 'unsatisfied_authorization',
+                        message: 'Provided keys do not satisfy declared authorizations',
+                    },
+                },
+                sessionOptions
+            )
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+            await plugin.savePrivateKey(session.storage!, mockScope, 'gamecontract', gameKey)
+
+            const result = await session.transact(transaction, {broadcast: false})
+
+            assert.lengthOf(result.signatures, 1)
+            assert.isFalse(await plugin.isAnySetup(session))
+        })
+    })
+
+    suite('policies', function () {
+        const policyContext: LocalSigningPolicyContext = {
+            actor: Name.from('wharfkit1131'),
+            contract: Name.from('gamecontract'),
+            action: Name.from('claim'),
+        }
+        async function transactWith(policies: LocalSigningPolicy | LocalSigningPolicy[]) {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {
+                        contract: 'eosio.token',
+                        actions: ['transfer'],
+                        policies: {transfer: policies},
+                    },
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+            const result = await session.transact(transfer, {broadcast: false})
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            const publicKey = PrivateKey.from(testKey).toPublic()
+            return result.signatures.some((sig) => sig.verifyDigest(digest, publicKey))
+        }
+
+        test('allowValues should only allow the listed values', function () {
+            const policy = allowValues('to', ['wharfkittest'])
+            assert.isTrue(policy({to: 'wharfkittest'}, policyContext))
+            assert.isFalse(policy({to: 'someoneelse'}, policyContext))
+        })
+
+        test('maxValue should cap numeric fields', function () {
+            const policy = maxValue('amount', 10)
+            assert.isTrue(policy({amount: 10}, policyContext))
+            assert.isTrue(policy({amount: '5'}, policyContext))
+            assert.isFalse(policy({amount: 11}, policyContext))
+            assert.isFalse(policy({}, policyContext))
+        })
+
+        test('maxAsset should cap assets of the same symbol', function () {
+            const policy = maxAsset('quantity', '1.0000 EOS')
+            assert.isTrue(policy({quantity: '1.0000 EOS'}, policyContext))
+            assert.isFalse(policy({quantity: '1.0001 EOS'}, policyContext))
+            assert.isFalse(policy({quantity: '0.5000 WAX'}, policyContext))
+        })
+
+        test('requireActor should require the signing account', function () {
+            const policy = requireActor('receiver')
+            assert.isTrue(policy({receiver: 'wharfkit1131'}, policyContext))
+            assert.isFalse(policy({receiver: 'wharfkittest'}, policyContext))
+        })
+
+        test('should sign locally when every policy allows the action', async function () {
+            assert.isTrue(
+                await transactWith([maxAsset('quantity', '1.0000 EOS'), requireActor('from')])
+            )
+        })
+
+        test('should leave rejected actions to the wallet', async function () {
+            assert.isFalse(await transactWith(maxAsset('quantity', '0.0000 EOS')))
+        })
+
+        test('should pass the decoded data to custom policies', async function () {
+            const seen: Record<string, unknown>[] = []
+            const signed = await transactWith((data, context) => {
+                seen.push(data)
+                return context.action.equals('transfer') && data.memo === 'test'
+            })
+            assert.isTrue(signed)
+            assert.equal(seen[0].quantity, '0.0001 EOS')
+        })
+
+        test('should authorize rejected actions with the session permission', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {
+                        contract: 'eosio.token',
+                        actions: ['transfer'],
+                        policies: {transfer: maxAsset('quantity', '0.0000 EOS')},
+                    },
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+            const local = {
+                action: {
+                    ...transfer.action,
+                    authorization: [{actor: 'wharfkit1131', permission: 'eosio.token'}],
+                },
+            }
+
+            const result = await session.transact(local, {broadcast: false})
+
+            const authorization = result.resolved!.transaction.actions[0].authorization
+            assert.equal(String(authorization[0]), 'wharfkit1131@test')
+        })
+
+        test('should treat a throwing policy as a rejection', async function () {
+            assert.isFalse(
+                await transactWith(() => {
+                    throw new Error('policy failed')
+                })
+            )
+        })
+    })
+
+    suite('limits', function () {
+        const play = {name: Name.from('play'), data: {}}
+        const buy = (price: string) => ({name: Name.from('buy'), data: {price}})
+
+        test('should count signatures within a period', function () {
+            const limits = [{period: 60, maxSignatures: 2}]
+            const first = countLimits(limits, [], [play, play], 1000)
+            assert.deepEqual(first, [{start: 1000, count: 2, spent: '0'}])
+            assert.isUndefined(countLimits(limits, first!, [play], 30000))
+            assert.deepEqual(countLimits(limits, first!, [play], 61000), [
+                {start: 61000, count: 1, spent: '0'},
+            ])
+        })
+
+        test('should only count the limited action', function () {
+            const limits = [{action: 'buy', period: 60, maxSignatures: 1}]
+            const usage = countLimits(limits, [], [play, play, buy('1.0000 EOS')], 1000)
+            assert.deepEqual(usage, [{start: 1000, count: 1, spent: '0'}])
+        })
+
+        test('should enforce asset budgets', function () {
+            const limits = [{period: 3600, budget: {field: 'price', max: '1.0000 EOS'}}]
+            const usage = countLimits(limits, [], [buy('0.6000 EOS')], 1000)
+            assert.deepEqual(usage, [{start: 1000, count: 1, spent: '6000'}])
+            assert.isUndefined(countLimits(limits, usage!, [buy('0.5000 EOS')], 2000))
+            assert.isUndefined(countLimits(limits, [], [buy('0.1000 WAX')], 2000))
+        })
+
+        test('should fall back to the wallet once a limit is reached', async function () {
+            const storage = new MockStorage()
+            const ui = new MockPromptUserInterface()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {
+                        contract: 'eosio.token',
+                        actions: ['transfer'],
+                        limits: [
+                            {period: 60, maxSignatures: 1},
+                            {period: 3600, budget: {field: 'quantity', max: '1.0000 EOS'}},
+                        ],
+                    },
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch(),
+                storage,
+                transactPlugins: [plugin],
+                ui,
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const first = await session.transact(transfer)
+            assert.lengthOf(first.signatures, 2)
+            const stored = JSON.parse(
+                (await storage.read(plugin.getLimitsStorageKey(mockScope, 'eosio.token')))!
+            )
+            assert.equal(stored[0].count, 1)
+            assert.equal(stored[1].spent, '1')
+
+            const second = await session.transact({
+                action: {
+                    ...transfer.action,
+                    authorization: [{actor: 'wharfkit1131', permission: 'eosio.token'}],
+                },
+            })
+            assert.lengthOf(second.signatures, 1)
+            assert.equal(
+                String(second.resolved!.transaction.actions[0].authorization[0]),
+                'wharfkit1131@test'
+            )
+            assert.lengthOf(ui.statuses, 1)
+            assert.include(ui.statuses[0], 'eosio.token')
+        })
+
+        test('should only count transactions that were broadcast', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {
+                        contract: 'eosio.token',
+                        actions: ['transfer'],
+                        limits: [{period: 60, maxSignatures: 1}],
+                    },
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({broadcastError: 'transaction declares authority'}),
+                storage,
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            await session.transact(transfer, {broadcast: false})
+            try {
+                await session.transact(transfer)
+            } catch {
+                // Rejected by the chain
+            }
+
+            assert.notExists(
+                await storage.read(plugin.getLimitsStorageKey(mockScope, 'eosio.token'))
+            )
+        })
+    })
+
+    suite('expiry', function () {
+        const actionConfigs = [{contract: 'eosio.token', actions: ['transfer'], expiresIn: 60}]
+
+        test('should store when the key was saved', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin({actionConfigs})
+            const before = Date.now()
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey)
+
+            const stored = await storage.read(plugin.getStorageKey(mockScope, 'eosio.token'))
+            assert.isAtLeast(decodeKeyEnvelope(stored!).t!, before)
+        })
+
+        test('should delete expired keys', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin({actionConfigs})
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey, createdAt)
+
+            const loaded = await plugin.loadPrivateKey(storage, mockScope, 'eosio.token')
+            assert.isUndefined(loaded)
+            assert.notExists(await storage.read(plugin.getStorageKey(mockScope, 'eosio.token')))
+            assert.notExists(await storage.read(plugin.getRevokeQueueStorageKey(mockScope)))
+        })
+
+        test('should start counting for keys stored without a time', async function () {
+            const storage = new MockStorage()
+            const plugin = createPlugin({actionConfigs})
+            const storageKey = plugin.getStorageKey(mockScope, 'eosio.token')
+            const payload = await new Base64KeyProtection().protect(testKey)
+            await storage.write(storageKey, encodeKeyEnvelope(Base64KeyProtection.id, payload))
+
+            assert.equal(await plugin.loadPrivateKey(storage, mockScope, 'eosio.token'), testKey)
+            assert.isNumber(decodeKeyEnvelope((await storage.read(storageKey))!).t)
+        })
+
+        test('should remove expired permissions with the next wallet transaction', async function () {
+            const sent: Transaction[] = []
+            const storage = new MockStorage()
+            const ui = new MockPromptUserInterface({approved: false})
+            const plugin = createPlugin({actionConfigs, revokeOnExpiry: true})
+            const permission = mockPermission(
+                'eosio.token',
+                String(PrivateKey.from(testKey).toPublic()),
+                [['eosio.token', 'transfer']]
+            )
+            const session = createSession(plugin, {sent, permissions: [permission]}, {storage, ui})
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey, createdAt)
+
+            await session.transact(transfer)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.include(ui.prompts[0].body, 'expired')
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['transfer', 'unlinkauth', 'deleteauth']
+            )
+            assert.notExists(await storage.read(plugin.getRevokeQueueStorageKey(mockScope)))
+            assert.isFalse(await plugin.isSetup(session, 'eosio.token'))
+        })
+
+        test('should set up again when the user accepts', async function () {
+            const sent: Transaction[] = []
+            const storage = new MockStorage()
+            const ui = new MockPromptUserInterface()
+            const plugin = createPlugin({actionConfigs, revokeOnExpiry: true})
+            const session = createSession(plugin, {sent}, {storage, ui})
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(storage, mockScope, 'eosio.token', testKey, createdAt)
+
+            await session.transact(transfer)
+
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['transfer', 'updateauth', 'linkauth']
+            )
+            assert.notExists(await storage.read(plugin.getRevokeQueueStorageKey(mockScope)))
+            const loaded = await plugin.loadPrivateKey(storage, mockScope, 'eosio.token')
+            assert.isDefined(loaded)
+            assert.notEqual(loaded, testKey)
+        })
+
+        async function createExpiredSession(
+            plugin: TransactPluginLocalSigning,
+            sent: Transaction[]
+        ) {
+            const permission = mockPermission(
+                'eosio.token',
+                String(PrivateKey.from(testKey).toPublic()),
+                [['eosio.token', 'transfer']]
+            )
+            const session = createSession(plugin, {sent, permissions: [permission]})
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt
+            )
+            // Reading the key expires it and queues its permission for removal
+            assert.isUndefined(
+                await plugin.loadPrivateKey(session.storage!, mockScope, 'eosio.token')
+            )
+            assert.exists(await session.storage!.read(plugin.getRevokeQueueStorageKey(mockScope)))
+            return session
+        }
+
+        test('should not remove a permission that is being set up again', async function () {
+            const sent: Transaction[] = []
+            const plugin = createPlugin({actionConfigs, revokeOnExpiry: true})
+            const session = await createExpiredSession(plugin, sent)
+
+            const result = await plugin.setup(session, 'eosio.token')
+
+            assert.equal(result.status, 'created')
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['updateauth']
+            )
+            assert.notExists(
+                await session.storage!.read(plugin.getRevokeQueueStorageKey(mockScope))
+            )
+            assert.isTrue(await plugin.isSetup(session, 'eosio.token'))
+        })
+
+        test('should not remove a permission that is being revoked twice', async function () {
+            const sent: Transaction[] = []
+            const plugin = createPlugin({actionConfigs, revokeOnExpiry: true})
+            const session = await createExpiredSession(plugin, sent)
+
+            await plugin.revoke(session, 'eosio.token')
+
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['unlinkauth', 'deleteauth']
+            )
+            assert.notExists(
+                await session.storage!.read(plugin.getRevokeQueueStorageKey(mockScope))
+            )
+        })
+    })
+
+    suite('key rotation', function () {
+        test('should replace the key with a transaction signed by the previous key', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+            })
+            const session = createSession(plugin, {sent})
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await plugin.rotateKey(session, 'eosio.token')
+
+            assert.isTrue(result.signedByLocalKey)
+            assert.lengthOf(sent, 1)
+            assert.isTrue(sent[0].id.equals(result.transactionId!))
+            const updateAuth = sent[0].actions[0]
+            assert.equal(String(updateAuth.name), 'updateauth')
+            assert.equal(String(updateAuth.authorization[0]), 'wharfkit1131@eosio.token')
+            const data = updateAuth.decodeData(UpdateAuth)
+            assert.isTrue(data.auth.keys[0].key.equals(result.publicKey))
+
+            const stored = await plugin.loadLocalKey(session.storage!, mockScope, 'eosio.token')
+            assert.isTrue(stored!.toPublic().equals(result.publicKey))
+        })
+
+        test('should not require a link for the permission to update itself', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+            })
+            const permission = mockPermission(
+                'eosio.token',
+                String(PrivateKey.from(testKey).toPublic()),
+                [['eosio.token', 'transfer']]
+            )
+            const session = createSession(plugin, {sent, permissions: [permission]})
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await plugin.rotateKey(session, 'eosio.token')
+
+            assert.isTrue(result.signedByLocalKey)
+            assert.equal(String(sent[0].actions[0].authorization[0]), 'wharfkit1131@eosio.token')
+        })
+
+        test('should ask the wallet when the previous key cannot sign', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+            })
+            const session = createSession(plugin, {
+                sent,
+                requiredKeysError: {
+                    code: 3090003,
+                    name: 'unsatisfied_authorization',
+                    message: 'transaction declares authority but does not have signatures for it',
+                },
+            })
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await plugin.rotateKey(session, 'eosio.token')
+
+            assert.isFalse(result.signedByLocalKey)
+            assert.lengthOf(sent, 1)
+            assert.equal(String(sent[0].actions[0].authorization[0]), 'wharfkit1131@active')
+            const stored = await plugin.loadPrivateKey(session.storage!, mockScope, 'eosio.token')
+            assert.notEqual(stored, testKey)
+        })
+
+        test('should keep the previous key when the rotation fails', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = createSession(plugin, {broadcastError: 'expired transaction'})
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            let error: Error | undefined
+            try {
+                await plugin.rotateKey(session, 'eosio.token')
+            } catch (e) {
+                error = e as Error
+            }
+            assert.instanceOf(error, Error)
+            const stored = await plugin.loadPrivateKey(session.storage!, mockScope, 'eosio.token')
+            assert.equal(stored, testKey)
+        })
+
+        test('should throw when local signing is not set up', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+            })
+            const session = createSession(plugin)
+
+            let error: Error | undefined
+            try {
+                await plugin.rotateKey(session, 'eosio.token')
+            } catch (e) {
+                error = e as Error
+            }
+            assert.include(error!.message, 'not set up')
+        })
+
+        test('should rotate after the next local transaction once due', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'eosio.token', actions: ['transfer'], rotationInterval: 60},
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = createSession(plugin, {sent})
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt
+            )
+
+            const result = await session.transact(transfer)
+
+            assert.lengthOf(sent, 2)
+            assert.isTrue(sent[0].id.equals(result.resolved!.transaction.id))
+            assert.deepEqual(
+                sent[1].actions.map((action) => String(action.name)),
+                ['updateauth']
+            )
+            assert.equal(String(sent[1].actions[0].authorization[0]), 'wharfkit1131@eosio.token')
+
+            const stored = await plugin.loadLocalKey(session.storage!, mockScope, 'eosio.token')
+            const data = sent[1].actions[0].decodeData(UpdateAuth)
+            assert.isTrue(data.auth.keys[0].key.equals(stored!.toPublic()))
+        })
+
+        test('should not rotate with a transaction the session does not broadcast', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'eosio.token', actions: ['transfer'], rotationInterval: 60},
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const session = createSession(plugin, {sent})
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt
+            )
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(sent, 0)
+            assert.lengthOf(result.resolved!.transaction.actions, 1)
+            const stored = await plugin.loadPrivateKey(session.storage!, mockScope, 'eosio.token')
+            assert.equal(stored, testKey)
+        })
+
+        test('should keep the key when the rotation is not accepted', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'eosio.token', actions: ['transfer'], rotationInterval: 60},
+                ],
+                keyProtection: new Base64KeyProtection(),
+            })
+            const permission = mockPermission(
+                'eosio.token',
+                String(PrivateKey.from(testKey).toPublic()),
+                [['eosio.token', 'transfer']]
+            )
+            const sent: Transaction[] = []
+            const chainFetch = mockChainFetch({sent, permissions: [permission]})
+            let broadcasts = 0
+            const session = new Session(mockSessionArgs, {
+                abis: [{account: 'eosio', abi: eosioAuthAbi}],
+                fetch: async (path: string, params?: any) => {
+                    if (path.endsWith('/v1/chain/send_transaction') && ++broadcasts > 1) {
+                        const error = {
+                            name: 'tx_error',
+                            details: [{message: 'missing authority of wharfkit1131/active'}],
+                        }
+                        return new Response(JSON.stringify({code: 500, error}), {status: 500})
+                    }
+                    return chainFetch(path, params)
+                },
+                storage: new MockStorage(),
+                transactPlugins: [plugin],
+            })
+            const createdAt = Date.now() - 61 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt
+            )
+
+            await session.transact(transfer)
+
+            const stored = await plugin.loadPrivateKey(session.storage!, mockScope, 'eosio.token')
+            assert.equal(stored, testKey)
+        })
+
+        test('should not rotate before the interval', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'eosio.token', actions: ['transfer'], rotationInterval: 60},
+                ],
+            })
+            const session = createSession(plugin, {sent})
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            await session.transact(transfer)
+
+            assert.lengthOf(sent[0].actions, 1)
+        })
+
+        const expiringConfigs = [
+            {
+                contract: 'eosio.token',
+                actions: ['transfer'],
+                expiresIn: 3600,
+                rotationInterval: 60,
+            },
+        ]
+
+        test('should keep the setup time when rotating manually', async function () {
+            const plugin = createPlugin({actionConfigs: expiringConfigs})
+            const session = createSession(plugin)
+            const createdAt = Date.now() - 120 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt
+            )
+
+            const before = Date.now()
+            await plugin.rotateKey(session, 'eosio.token')
+
+            const storageKey = plugin.getStorageKey(mockScope, 'eosio.token')
+            const envelope = decodeKeyEnvelope((await session.storage!.read(storageKey))!)
+            assert.equal(envelope.t, createdAt)
+            assert.isAtLeast(envelope.r!, before)
+        })
+
+        test('should keep the setup time when rotating automatically', async function () {
+            const sent: Transaction[] = []
+            const plugin = createPlugin({actionConfigs: expiringConfigs})
+            const session = createSession(plugin, {sent})
+            const createdAt = Date.now() - 120 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt
+            )
+
+            await session.transact(transfer)
+            await session.transact(transfer)
+
+            // Rotated once, the rotation restarts the interval but not the expiry
+            assert.deepEqual(
+                sent.map((transaction) => transaction.actions.map((action) => String(action.name))),
+                [['transfer'], ['updateauth'], ['transfer']]
+            )
+            const storageKey = plugin.getStorageKey(mockScope, 'eosio.token')
+            const envelope = decodeKeyEnvelope((await session.storage!.read(storageKey))!)
+            assert.equal(envelope.t, createdAt)
+            assert.isDefined(envelope.r)
+        })
+
+        test('should still expire keys that were rotated', async function () {
+            const plugin = createPlugin({actionConfigs: expiringConfigs})
+            const session = createSession(plugin)
+            const createdAt = Date.now() - 3601 * 1000
+            const rotatedAt = Date.now() - 10 * 1000
+            await plugin.savePrivateKey(
+                session.storage!,
+                mockScope,
+                'eosio.token',
+                testKey,
+                createdAt,
+                rotatedAt
+            )
+
+            assert.isFalse(await plugin.isSetup(session, 'eosio.token'))
+        })
+    })
+
+    suite('cosigner', function () {
+        const cosignerKey = PrivateKey.generate('K1')
+        const noopAbi = ABI.from({
+            version: 'eosio::abi/1.1',
+            structs: [{name: 'noop', base: '', fields: []}],
+            actions: [{name: 'noop', type: 'noop', ricardian_contract: ''}],
+        })
+        const noop = {
+            account: 'greymassnoop',
+            name: 'noop',
+            authorization: [{actor: 'greymassfuel', permission: 'cosign'}],
+            data: '',
+        }
+        /**
+         * A resource provider prepending the given actions and signing the result
+         */
+        function mockProviderFetch(requests: any[], prepend: any[] = [noop], code = 200) {
+            return async (url: string, init?: any) => {
+                const body = JSON.parse(init.body)
+                requests.push({url, ...body})
+                const original = SigningRequest.from(body.request).getRawTransaction()
+                const transaction = Transaction.from({
+                    ...original,
+                    actions: [...prepend, ...original.actions],
+                })
+                const digest = transaction.signingDigest(mockSessionArgs.chain.id)
+                const data = {
+                    request: ['transaction', transaction],
+                    signatures: [String(cosignerKey.signDigest(digest))],
+                }
+                return new Response(JSON.stringify({code, data}))
+            }
+        }
+
+        async function createCosignedSession(fetch: any) {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                cosigner: new ResourceProviderCosigner({url: 'https://cosigner.example/', fetch}),
+            })
+            const session = createSession(
+                plugin,
+                {},
+                {abis: [{account: 'greymassnoop', abi: noopAbi}]}
+            )
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+            return session
+        }
+
+        test('should add the cosigner actions and signature', async function () {
+            const requests: any[] = []
+            const session = await createCosignedSession(mockProviderFetch(requests))
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(requests, 1)
+            assert.equal(
+                requests[0].url,
+                'https://cosigner.example/v1/resource_provider/request_transaction'
+            )
+            assert.equal(
+                String(PermissionLevel.from(requests[0].signer)),
+                'wharfkit1131@eosio.token'
+            )
+
+            const transaction = result.resolved!.transaction
+            assert.deepEqual(
+                transaction.actions.map((action) => String(action.account)),
+                ['greymassnoop', 'eosio.token']
+            )
+            const digest = transaction.signingDigest(session.chain.id)
+            const signedBy = (key: PrivateKey) =>
+                result.signatures.some((sig) => sig.verifyDigest(digest, key.toPublic()))
+            assert.isTrue(signedBy(cosignerKey))
+            assert.isTrue(signedBy(PrivateKey.from(testKey)))
+        })
+
+        test('should ignore actions added with the account authorization', async function () {
+            const requests: any[] = []
+            const action = {
+                ...noop,
+                authorization: [{actor: 'wharfkit1131', permission: 'active'}],
+            }
+            const session = await createCosignedSession(mockProviderFetch(requests, [action]))
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(requests, 1)
+            assert.lengthOf(result.resolved!.transaction.actions, 1)
+            assert.lengthOf(result.signatures, 2)
+        })
+
+        test('should sign without the cosigner when it declines', async function () {
+            const requests: any[] = []
+            const session = await createCosignedSession(mockProviderFetch(requests, [noop], 402))
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(requests, 1)
+            assert.lengthOf(result.resolved!.transaction.actions, 1)
+            assert.lengthOf(result.signatures, 2)
+        })
+
+        test('should sign without the cosigner when it is unavailable', async function () {
+            const session = await createCosignedSession(async () => {
+                throw new Error('connection refused')
+            })
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(result.resolved!.transaction.actions, 1)
+            assert.lengthOf(result.signatures, 2)
+        })
+    })
+
+    suite('signed notice', function () {
+        async function createNotifyingSession(
+            notifyOnSign: TransactPluginLocalSigningOptions['notifyOnSign'],
+            ui: MockPromptUserInterface
+        ) {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                notifyOnSign,
+            })
+            const session = createSession(plugin, {}, {ui})
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+            return session
+        }
+
+        test('should show a status after signing locally', async function () {
+            const ui = new MockPromptUserInterface()
+            const session = await createNotifyingSession(true, ui)
+
+            await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(ui.statuses, 1)
+            assert.include(ui.statuses[0], 'Auto-Signed')
+            assert.include(ui.statuses[0], 'eosio.token::transfer')
+        })
+
+        test('should not show a notice unless enabled', async function () {
+            const ui = new MockPromptUserInterface()
+            const session = await createNotifyingSession(undefined, ui)
+
+            await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(ui.statuses, 0)
+        })
+
+        test('should throttle notices', async function () {
+            const ui = new MockPromptUserInterface()
+            const session = await createNotifyingSession({throttle: 60}, ui)
+
+            await session.transact(transfer, {broadcast: false})
+            await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(ui.statuses, 1)
+        })
+
+        test('should let the app show the notice', async function () {
+            const ui = new MockPromptUserInterface()
+            const notices: LocalSigningNotice[] = []
+            const session = await createNotifyingSession(
+                {show: (notice) => notices.push(notice)},
+                ui
+            )
+
+            await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(ui.statuses, 0)
+            assert.lengthOf(notices, 1)
+            assert.equal(notices[0].title, 'Auto-Signed')
+            assert.equal(String(notices[0].actions[0].name), 'transfer')
+        })
+        test('should ignore errors thrown by the app notice', async function () {
+            const sent: Transaction[] = []
+            const signed: LocalSigningSignEvent[] = []
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                notifyOnSign: {
+                    show: () => {
+                        throw new Error('toast unavailable')
+                    },
+                },
+                onLocalSign: (event) => signed.push(event),
+            })
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({sent}),
+                storage: new MockStorage(),
+                transactPlugins: [plugin],
+            })
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            await session.transact(transfer)
+
+            assert.lengthOf(sent, 1)
+            assert.lengthOf(signed, 1)
+        })
+    })
+
+    suite('events', function () {
+        function createRecordingPlugin(events: any[]) {
+            const record =
+                (name: string) =>
+                (event: any): void => {
+                    events.push({name, ...event})
+                }
+            return createPlugin({
+                onSetup: record('setup'),
+                onSetupDeclined: record('declined'),
+                onSetupFailed: record('failed'),
+                onLocalSign: record('sign'),
+                onFallback: record('fallback'),
+                onTeardown: record('teardown'),
+            })
+        }
+
+        test('should report setup and local signing', async function () {
+            const events: any[] = []
+            const plugin = createRecordingPlugin(events)
+            const session = createSession(plugin)
+
+            const setup = await plugin.setup(session, 'eosio.token')
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.deepEqual(
+                events.map((event) => event.name),
+                ['setup', 'sign']
+            )
+            assert.equal(String(events[0].contract), 'eosio.token')
+            assert.isTrue(events[0].publicKey.equals(setup.publicKey))
+            assert.isTrue(events[0].transactionId.equals(setup.transactionId))
+            assert.isTrue(events[1].transactionId.equals(result.resolved!.transaction.id))
+            assert.equal(String(events[1].actions[0].name), 'transfer')
+            assert.equal(String(events[1].scope.actor), 'wharfkit1131')
+        })
+
+        test('should report declined and failed setups', async function () {
+            const events: any[] = []
+            const plugin = createRecordingPlugin(events)
+            const declining = createSession(
+                plugin,
+                {},
+                {ui: new MockPromptUserInterface({approved: false})}
+            )
+            await plugin.setup(declining, 'eosio.token', {prompt: true})
+
+            const failing = createSession(plugin, {broadcastError: 'expired transaction'})
+            let error: unknown
+            try {
+                await plugin.setup(failing, 'eosio.token')
+            } catch (e) {
+                error = e
+            }
+
+            assert.deepEqual(
+                events.map((event) => event.name),
+                ['declined', 'failed']
+            )
+            assert.equal(String(events[0].contracts[0]), 'eosio.token')
+            assert.equal(events[1].error, error)
+        })
+
+        test('should report falling back to the wallet', async function () {
+            const events: any[] = []
+            const plugin = createRecordingPlugin(events)
+            const session = createSession(plugin)
+
+            await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(events, 1)
+            assert.equal(events[0].name, 'fallback')
+            assert.equal(events[0].reason, 'missing-key')
+            assert.equal(String(events[0].contracts[0]), 'eosio.token')
+        })
+
+        test('should report teardown', async function () {
+            const events: any[] = []
+            const plugin = createRecordingPlugin(events)
+            const session = createSession(plugin)
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            await plugin.teardown(session)
+
+            assert.deepEqual(
+                events.map((event) => event.name),
+                ['teardown']
+            )
+        })
+
+        test('should ignore errors thrown by callbacks', async function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                onLocalSign: () => {
+                    throw new Error('analytics unavailable')
+                },
+            })
+            const session = createSession(plugin)
+            await plugin.savePrivateKey(session.storage!, mockScope, 'eosio.token', testKey)
+
+            const result = await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(result.signatures, 2)
+        })
+    })
+
+    suite('declined setups', function () {
+        const actionConfigs = [{contract: 'gamecontract', actions: ['play']}]
+
+        test('should not prompt again at login after a decline', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+            const first = new MockPromptUserInterface({approved: false})
+            await runAfterLogin(plugin, session, first)
+
+            // A new instance, as after reloading the page
+            const reloaded = new TransactPluginLocalSigning({actionConfigs})
+            const second = new MockPromptUserInterface({approved: false})
+            await runAfterLogin(reloaded, session, second)
+
+            assert.lengthOf(first.prompts, 1)
+            assert.lengthOf(second.prompts, 0)
+            assert.isTrue(await plugin.isSetupDeclined(session.storage!, mockScope, 'gamecontract'))
+        })
+
+        test('should prompt again once the cool-down has passed', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs, declineCooldown: 0})
+            const session = createSession()
+            const ui = new MockPromptUserInterface({approved: false})
+
+            await runAfterLogin(plugin, session, ui)
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 2)
+        })
+
+        test('should never prompt again when asked not to', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs, declineCooldown: 0})
+            const session = createSession()
+            const ui = new MockPromptUserInterface({approved: false, never: true})
+
+            await runAfterLogin(plugin, session, ui)
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 1)
+            const labels = ui.prompts[0].elements.map((element) => element.label)
+            assert.include(labels, "Don't Ask Again")
+        })
+
+        test('should offer again after resetting the preference', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+            const ui = new MockPromptUserInterface({approved: false, never: true})
+
+            await runAfterLogin(plugin, session, ui)
+            await plugin.resetPreference(session, 'gamecontract')
+            await runAfterLogin(plugin, session, ui)
+
+            assert.lengthOf(ui.prompts, 2)
+        })
+
+        test('should keep preferences per account', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+            await runAfterLogin(plugin, session, new MockPromptUserInterface({approved: false}))
+
+            const otherScope = {...mockScope, actor: 'wharfkittest'}
+            assert.isTrue(await plugin.isSetupDeclined(session.storage!, mockScope, 'gamecontract'))
+            assert.isFalse(
+                await plugin.isSetupDeclined(session.storage!, otherScope, 'gamecontract')
+            )
+        })
+    })
+
+    suite('isSetup', function () {
+        test('should return false when no key exists', async function () {
+            const storage = new MockStorage()
+            const options: TransactPluginLocalSigningOptions = {
+                actionConfigs: [
+                    {
+                        contract: 'gamecontract',
+                        actions: ['play'],
+                    },
+                ],
+            }
+            const plugin = new TransactPluginLocalSigning(options)
+
+            const mockSessionOptions: SessionOptions = {
+                fetch: mockFetch,
+                storage,
+                transactPlugins: [plugin],
+            }
+            const session = new Session(mockSessionArgs, mockSessionOptions)
+
+            const result = await plugin.isSetup(session, 'gamecontract')
+            assert.isFalse(result)
+        })
+
+        test('should return true when key exists (key exists = permission set up)', async function () {
+            const storage = new MockStorage()
+            const options: TransactPluginLocalSigningOptions = {
+                actionConfigs: [
+                    {
+                        contract: 'gamecontract',
+                        actions: ['play'],
+                    },
+                ],
+            }
+            const plugin = new TransactPluginLocalSigning(options)
+
+            const mockSessionOptions: SessionOptions = {
+                fetch: mockFetch,
+                storage,
+                transactPlugins: [plugin],
+            }
+            const session = new Session(mockSessionArgs, mockSessionOptions)
+
+            // Save a key
+            await plugin.savePrivateKey(
+                storage,
+                mockScope,
+                'gamecontract',
+                'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
+            )
+
+            const result = await plugin.isSetup(session, 'gamecontract')
+            assert.isTrue(result)
+        })
+    })
+
+    suite('teardown', function () {
+        test('should delete all stored keys', async function () {
+            const storage = new MockStorage()
+            const options: TransactPluginLocalSigningOptions = {
+                actionConfigs: [
+                    {
+                        contract: 'gamecontract',
+                        actions: ['play'],
+                    },
+                    {
+                        contract: 'othercontrc', // EOSIO names max 12 chars
+                        actions: ['action1'],
+                    },
+                ],
+            }
+            const plugin = new TransactPluginLocalSigning(options)
+
+            const mockSessionOptions: SessionOptions = {
+                fetch: mockFetch,
+                storage,
+                transactPlugins: [plugin],
+            }
+            const session = new Session(mockSessionArgs, mockSessionOptions)
+
+            // Save keys for both contracts
             await plugin.savePrivateKey(
                 storage,
+                mockScope,
                 'gamecontract',
                 'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
             )
             await plugin.savePrivateKey(
                 storage,
+                mockScope,
                 'othercontrc',
                 'PVT_K1_2bfGi9rYsXQSXXTvJbDAPhHLQUojjaNLomdm3cEJ1XTzMqUt3V'
             )
 
             // Verify keys exist
-            assert.isDefined(await plugin.loadPrivateKey(storage, 'gamecontract'))
-            assert.isDefined(await plugin.loadPrivateKey(storage, 'othercontrc'))
+            assert.isDefined(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'))
+            assert.isDefined(await plugin.loadPrivateKey(storage, mockScope, 'othercontrc'))
 
             // Call teardown
             await plugin.teardown(session)
 
             // Verify keys are deleted
-            assert.isUndefined(await plugin.loadPrivateKey(storage, 'gamecontract'))
-            assert.isUndefined(await plugin.loadPrivateKey(storage, 'othercontrc'))
+            assert.isUndefined(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'))
+            assert.isUndefined(await plugin.loadPrivateKey(storage, mockScope, 'othercontrc'))
         })
     })
 
@@ -350,7 +3400,25 @@ suite('TransactPluginLocalSigning', function () {
     })
 
     suite('getters', function () {
-        test('getStorageKey should return shipload-style key format', function () {
+        test('getStorageKey should scope the key by chain, actor and contract', function () {
+            const options: TransactPluginLocalSigningOptions = {
+                actionConfigs: [
+                    {
+                        contract: 'gamecontract',
+                        actions: ['play'],
+                    },
+                ],
+            }
+            const plugin = new TransactPluginLocalSigning(options)
+
+            const key = plugin.getStorageKey(mockScope, 'gamecontract')
+            assert.equal(
+                key,
+                'localsession-73e4385a2708e6d7048834fbc1079f2fabb17b3c125b146af438971e90716c4d-wharfkit1131-gamecontract'
+            )
+        })
+
+        test('getLegacyStorageKey should return shipload-style key format', function () {
             const options: TransactPluginLocalSigningOptions = {
                 actionConfigs: [
                     {
@@ -361,7 +3429,7 @@ suite('TransactPluginLocalSigning', function () {
             }
             const plugin = new TransactPluginLocalSigning(options)
 
-            const key = plugin.getStorageKey('gamecontract')
+            const key = plugin.getLegacyStorageKey('gamecontract')
             assert.equal(key, 'localsession-gamecontract')
         })
 
@@ -399,6 +3467,388 @@ suite('TransactPluginLocalSigning', function () {
         })
     })
 
+    suite('setup', function () {
+        const actionConfigs = [
+            {contract: 'gamecontract', actions: ['play', 'claim']},
+            {contract: 'nftcontract', actions: ['equip']},
+        ]
+
+        test('should set up a contract without prompting', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession(undefined, {
+                sent,
+                permissions: [
+                    mockPermission('gamecontract', String(PrivateKey.generate('K1').toPublic()), [
+                        ['gamecontract', 'play'],
+                    ]),
+                ],
+            })
+
+            const result = await plugin.setup(session, 'gamecontract')
+
+            assert.equal(result.status, 'created')
+            assert.isTrue(result.contract.equals('gamecontract'))
+            assert.isTrue(result.permission.equals('gamecontract'))
+            assert.isTrue(result.transactionId!.equals(sent[0].id))
+            const localKey = await plugin.loadLocalKey(session.storage!, mockScope, 'gamecontract')
+            assert.isTrue(result.publicKey!.equals(localKey!.toPublic()))
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['updateauth', 'linkauth']
+            )
+        })
+
+        test('should report an existing key without a transaction', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession(undefined, {sent})
+
+            const created = await plugin.setup(session, 'gamecontract')
+            const existing = await plugin.setup(session, 'gamecontract')
+
+            assert.equal(existing.status, 'existing')
+            assert.isTrue(existing.publicKey!.equals(created.publicKey!))
+            assert.lengthOf(sent, 1)
+        })
+
+        test('should replace an existing key when forced', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+
+            const created = await plugin.setup(session, 'gamecontract')
+            const replaced = await plugin.setup(session, 'gamecontract', {force: true})
+
+            assert.equal(replaced.status, 'created')
+            assert.isFalse(replaced.publicKey!.equals(created.publicKey!))
+        })
+
+        test('should set up several contracts in one transaction', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession(undefined, {sent})
+
+            const results = await plugin.setupAll(session)
+
+            assert.deepEqual(
+                results.map((result) => result.status),
+                ['created', 'created']
+            )
+            assert.lengthOf(sent, 1)
+            assert.isTrue(await plugin.isSetup(session, 'nftcontract'))
+        })
+
+        test('should report contracts the user declined', async function () {
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const ui = new MockPromptUserInterface({approved: true, contracts: ['nftcontract']})
+            const session = createSession(undefined, {sent}, {ui})
+
+            const results = await plugin.setupAll(session, undefined, {prompt: true})
+
+            assert.deepEqual(
+                results.map((result) => result.status),
+                ['declined', 'created']
+            )
+            assert.lengthOf(ui.prompts, 1)
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+        })
+
+        test('should require a user interface to prompt', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+
+            let error: Error | undefined
+            try {
+                await plugin.setup(session, 'gamecontract', {prompt: true})
+            } catch (e) {
+                error = e as Error
+            }
+            assert.equal(error?.message, 'UI is required for the initial setup of local signing.')
+        })
+
+        test('should require storage', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+            Object.assign(session, {storage: undefined})
+
+            let error: Error | undefined
+            try {
+                await plugin.setup(session, 'gamecontract')
+            } catch (e) {
+                error = e as Error
+            }
+            assert.equal(error?.message, 'Storage is required for local signing to work.')
+        })
+
+        test('should throw for an unconfigured contract', async function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession()
+
+            let error: Error | undefined
+            try {
+                await plugin.setup(session, 'othercontract')
+            } catch (e) {
+                error = e as Error
+            }
+            assert.include(error?.message, 'No local signing configuration')
+        })
+    })
+
+    suite('setup on transact', function () {
+        const transfer = {
+            action: {
+                authorization: [{actor: 'wharfkit1131', permission: 'eosio.token'}],
+                account: 'eosio.token',
+                name: 'transfer',
+                data: {
+                    from: 'wharfkit1131',
+                    to: 'wharfkittest',
+                    quantity: '0.0001 EOS',
+                    memo: 'test',
+                },
+            },
+        }
+
+        test('should set up local signing with the first matching transaction', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                setupOnTransact: true,
+            })
+            const session = createSession(plugin, {sent}, {ui})
+
+            await session.transact(transfer)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['transfer', 'updateauth', 'linkauth']
+            )
+            assert.equal(String(sent[0].actions[0].authorization[0]), 'wharfkit1131@test')
+            assert.isTrue(await plugin.isSetup(session, 'eosio.token'))
+
+            // Later matches are signed locally
+            const localKey = await plugin.loadLocalKey(session.storage!, mockScope, 'eosio.token')
+            const result = await session.transact(transfer, {broadcast: false})
+            const digest = result.resolved!.transaction.signingDigest(session.chain.id)
+            assert.lengthOf(ui.prompts, 1)
+            assert.isTrue(
+                result.signatures.some((sig) => sig.verifyDigest(digest, localKey!.toPublic()))
+            )
+        })
+
+        test('should not offer again after the user declines', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface({approved: false})
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+                setupOnTransact: true,
+            })
+            const session = createSession(plugin, {sent}, {ui})
+
+            await session.transact(transfer)
+            await session.transact(transfer)
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.lengthOf(sent[0].actions, 1)
+            assert.isFalse(await plugin.isSetup(session, 'eosio.token'))
+        })
+
+        test('should not offer setup unless enabled', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface()
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'eosio.token', actions: ['transfer']}],
+            })
+            const session = createSession(plugin, {sent}, {ui})
+
+            await session.transact(transfer, {broadcast: false})
+
+            assert.lengthOf(ui.prompts, 0)
+        })
+    })
+
+    suite('batch setup', function () {
+        const actionConfigs = [
+            {contract: 'gamecontract', actions: ['play']},
+            {contract: 'nftcontract', actions: ['equip']},
+        ]
+
+        async function loginWith(ui: MockPromptUserInterface, options: MockChainOptions = {}) {
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = createSession(undefined, options)
+            await runAfterLogin(plugin, session, ui)
+            return {plugin, session}
+        }
+
+        test('should set up every contract with one prompt and one transaction', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface()
+            const {plugin, session} = await loginWith(ui, {sent})
+
+            assert.lengthOf(ui.prompts, 1)
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['updateauth', 'linkauth', 'updateauth', 'linkauth']
+            )
+            assert.isTrue(await plugin.isSetup(session, 'gamecontract'))
+            assert.isTrue(await plugin.isSetup(session, 'nftcontract'))
+        })
+
+        test('should let the user toggle contracts off', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface([{toggle: 'nftcontract'}, {approved: true}])
+            const {plugin, session} = await loginWith(ui, {sent})
+
+            assert.lengthOf(ui.prompts, 2)
+            const labels = ui.prompts[1].elements.map((element) => element.label)
+            assert.include(labels, 'gamecontract: Enabled')
+            assert.include(labels, 'nftcontract: Skipped')
+            assert.lengthOf(sent, 1)
+            assert.deepEqual(
+                sent[0].actions.map((action) => String(action.name)),
+                ['updateauth', 'linkauth']
+            )
+            assert.isTrue(await plugin.isSetup(session, 'gamecontract'))
+            assert.isFalse(await plugin.isSetup(session, 'nftcontract'))
+        })
+
+        test('should accept the approved contracts from the prompt response', async function () {
+            const sent: Transaction[] = []
+            const ui = new MockPromptUserInterface({approved: true, contracts: ['nftcontract']})
+            const {plugin, session} = await loginWith(ui, {sent})
+
+            assert.lengthOf(sent, 1)
+            assert.isFalse(await plugin.isSetup(session, 'gamecontract'))
+            assert.isTrue(await plugin.isSetup(session, 'nftcontract'))
+        })
+
+        test('should not save any key when the setup transaction fails', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({actionConfigs})
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({broadcastError: 'missing authority of wharfkit1131/active'}),
+                storage,
+            })
+
+            let error: Error | undefined
+            try {
+                await runAfterLogin(plugin, session)
+            } catch (e) {
+                error = e as Error
+            }
+
+            assert.isDefined(error)
+            assert.isFalse(await plugin.isAnySetup(session))
+        })
+    })
+
+    suite('custom permissions', function () {
+        const customConfig = {
+            contract: 'gamecontract',
+            actions: ['play'],
+            permission: 'gamesession',
+            parentPermission: 'owner',
+            authorizingPermission: 'owner',
+        }
+
+        test('should default to the contract name under active', function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [{contract: 'gamecontract', actions: ['play']}],
+            })
+            assert.equal(String(plugin.getPermissionName('gamecontract')), 'gamecontract')
+            assert.equal(String(plugin.getParentPermission('gamecontract')), 'active')
+            assert.equal(String(plugin.getAuthorizingPermission('gamecontract')), 'active')
+        })
+
+        test('should authorize with the parent permission by default', function () {
+            const plugin = new TransactPluginLocalSigning({
+                actionConfigs: [
+                    {contract: 'gamecontract', actions: ['play'], parentPermission: 'owner'},
+                ],
+            })
+            assert.equal(String(plugin.getAuthorizingPermission('gamecontract')), 'owner')
+        })
+
+        test('should build actions with the configured permissions', function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs: [customConfig]})
+            const publicKey = String(PrivateKey.generate('K1').toPublic())
+
+            const updateAuth = plugin.createUpdateAuthAction(
+                'wharfkit1131',
+                'gamecontract',
+                publicKey
+            )
+            assert.equal(String(updateAuth.authorization[0]), 'wharfkit1131@owner')
+            const updateData = updateAuth.decodeData(UpdateAuth)
+            assert.equal(String(updateData.permission), 'gamesession')
+            assert.equal(String(updateData.parent), 'owner')
+
+            const [linkAuth] = plugin.createLinkAuthActions('wharfkit1131', 'gamecontract', [
+                'play',
+            ])
+            assert.equal(String(linkAuth.authorization[0]), 'wharfkit1131@owner')
+            assert.equal(String(linkAuth.decodeData(LinkAuth).requirement), 'gamesession')
+
+            const [unlinkAuth] = plugin.createUnlinkAuthActions('wharfkit1131', 'gamecontract', [
+                'play',
+            ])
+            assert.equal(String(unlinkAuth.authorization[0]), 'wharfkit1131@owner')
+
+            const deleteAuth = plugin.createDeleteAuthAction('wharfkit1131', 'gamecontract')
+            assert.equal(String(deleteAuth.authorization[0]), 'wharfkit1131@owner')
+            assert.equal(String(deleteAuth.decodeData(DeleteAuth).permission), 'gamesession')
+        })
+
+        test('should include a custom permission in the storage key', function () {
+            const plugin = new TransactPluginLocalSigning({actionConfigs: [customConfig]})
+            assert.isTrue(
+                plugin
+                    .getStorageKey(mockScope, 'gamecontract')
+                    .endsWith('-gamecontract-gamesession')
+            )
+        })
+
+        test('should not migrate legacy keys to a custom permission', async function () {
+            const storage = new MockStorage()
+            const plugin = new TransactPluginLocalSigning({actionConfigs: [customConfig]})
+            await storage.write(plugin.getLegacyStorageKey('gamecontract'), 'legacy')
+
+            assert.isUndefined(await plugin.loadPrivateKey(storage, mockScope, 'gamecontract'))
+            assert.exists(await storage.read(plugin.getLegacyStorageKey('gamecontract')))
+        })
+
+        test('should set up and verify the configured permission at login', async function () {
+            const storage = new MockStorage()
+            const sent: Transaction[] = []
+            const plugin = new TransactPluginLocalSigning({actionConfigs: [customConfig]})
+            const session = new Session(mockSessionArgs, {
+                fetch: mockChainFetch({
+                    sent,
+                    permissions: [
+                        mockPermission(
+                            'gamecontract',
+                            String(PrivateKey.generate('K1').toPublic())
+                        ),
+                    ],
+                }),
+                storage,
+            })
+
+            await runAfterLogin(plugin, session)
+
+            assert.lengthOf(sent, 1)
+            const [updateAuth, linkAuth] = sent[0].actions
+            assert.equal(String(updateAuth.authorization[0]), 'wharfkit1131@owner')
+            assert.equal(String(updateAuth.decodeData(UpdateAuth).permission), 'gamesession')
+            assert.equal(String(linkAuth.decodeData(LinkAuth).requirement), 'gamesession')
+            assert.isTrue(await plugin.isSetup(session, 'gamecontract'))
+        })
+    })
+
     suite('translations', function () {
         test('should have translations defined', function () {
             const options: TransactPluginLocalSigningOptions = {
@@ -436,8 +3886,8 @@ suite('TransactPluginLocalSigning', function () {
             ]
 
             for (const testKey of testKeys) {
-                await plugin.savePrivateKey(storage, 'gamecontract', testKey)
-                const loaded = await plugin.loadPrivateKey(storage, 'gamecontract')
+                await plugin.savePrivateKey(storage, mockScope, 'gamecontract', testKey)
+                const loaded = await plugin.loadPrivateKey(storage, mockScope, 'gamecontract')
                 assert.equal(
                     loaded,
                     testKey,